@@ -0,0 +1,80 @@
+import { HeadlessSimulation } from "./core/HeadlessSimulation";
+import { CatchUpSimulation } from "./core/CatchUpSimulation";
+import { SoilSystem } from "./systems/SoilSystem";
+
+/**
+ * Headless check that offline catch-up tracks live play (no browser needed):
+ *
+ *   npm run check:catch-up -- [hours=24] [seed=7]
+ *
+ * Runs the same garden twice from the same seed: once tick by tick, once
+ * through CatchUpSimulation. Prints soil stats for both and exits non-zero if
+ * catch-up lands too far from the live run. The spreads (standard deviation
+ * across cells) catch too little diffusion, which leaves the soil patchy.
+ */
+const args = (globalThis as { process?: { argv: string[] } }).process?.argv.slice(2) ?? [];
+const hours = Number(args[0] ?? 24);
+const seed = Number(args[1] ?? 7);
+
+// Allowed gap between the runs: moisture / nutrient points for the averages,
+// a share of the live value for the spreads. Surface water still flows in
+// quarter-hour steps, so rainy runs differ a little (about 10% in moisture
+// spread); three diffusion passes per step left them 20% to several times off.
+const TOLERANCE = { avgMoisture: 2, avgNitrogen: 0.5 };
+const SPREAD_TOLERANCE = 0.15;
+const MIN_SPREAD_GAP = 0.1;
+
+function soilStats(soil: SoilSystem) {
+    const cells = soil.GRID_SIZE * soil.GRID_SIZE;
+    const moisture: number[] = [];
+    const nitrogen: number[] = [];
+    for (let z = 0; z < soil.GRID_SIZE; z++) {
+        for (let x = 0; x < soil.GRID_SIZE; x++) {
+            moisture.push(soil.getMoistureAtCell(x - soil.GRID_SIZE / 2, z - soil.GRID_SIZE / 2));
+            nitrogen.push(soil.getNutrientAtCell("nitrogen", x - soil.GRID_SIZE / 2, z - soil.GRID_SIZE / 2));
+        }
+    }
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / cells;
+    const spread = (values: number[]) => {
+        const m = mean(values);
+        return Math.sqrt(values.reduce((a, b) => a + (b - m) ** 2, 0) / cells);
+    };
+    return {
+        avgMoisture: Number(mean(moisture).toFixed(2)),
+        moistureSpread: Number(spread(moisture).toFixed(2)),
+        avgNitrogen: Number(mean(nitrogen).toFixed(2)),
+        nitrogenSpread: Number(spread(nitrogen).toFixed(2)),
+    };
+}
+
+function plantGarden(sim: HeadlessSimulation): void {
+    for (let i = 0; i < 16; i++) {
+        sim.plantAt((i % 4 - 1.5) * 3, (Math.floor(i / 4) - 1.5) * 3);
+    }
+}
+
+const live = new HeadlessSimulation({ seed });
+plantGarden(live);
+live.advanceHours(hours);
+
+const offline = new HeadlessSimulation({ seed });
+plantGarden(offline);
+new CatchUpSimulation(offline.world, offline.timeSystem, offline.soilSystem, offline.growthSystem, offline.buildingSystem, offline.decaySystem)
+    .run(hours);
+
+const liveStats = soilStats(live.soilSystem);
+const catchUpStats = soilStats(offline.soilSystem);
+console.log(JSON.stringify({ hours, seed, live: liveStats, catchUp: catchUpStats }));
+
+const failures = [
+    ...(Object.keys(TOLERANCE) as (keyof typeof TOLERANCE)[])
+        .filter(key => Math.abs(liveStats[key] - catchUpStats[key]) > TOLERANCE[key]),
+    ...(["moistureSpread", "nitrogenSpread"] as const)
+        .filter(key => Math.abs(liveStats[key] - catchUpStats[key]) > Math.max(MIN_SPREAD_GAP, liveStats[key] * SPREAD_TOLERANCE)),
+];
+if (failures.length > 0) {
+    console.error(`Catch-up drifted from live play: ${failures.join(", ")}`);
+    (globalThis as { process?: { exitCode?: number } }).process!.exitCode = 1;
+} else {
+    console.log("Catch-up matches live play");
+}
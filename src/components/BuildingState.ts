@@ -1,5 +1,6 @@
 
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 import { BuildingType } from "../ui/ToolManager";
 
 export class BuildingState extends Component {
@@ -10,3 +11,9 @@ export class BuildingState extends Component {
         this.type = type;
     }
 }
+
+registerComponent(BuildingState, {
+    id: "BuildingState",
+    description: "Placed building type.",
+    schema: { type: "string" },
+});
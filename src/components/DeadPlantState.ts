@@ -1,5 +1,6 @@
 
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 
 /**
  * Component for dead plants that are decaying and releasing nitrogen.
@@ -34,3 +35,14 @@ export class DeadPlantState extends Component {
         }
     }
 }
+
+registerComponent(DeadPlantState, {
+    id: "DeadPlantState",
+    description: "Decomposition progress of a dead plant.",
+    schema: {
+        decayProgress: "number",
+        nitrogenTotal: "number",
+        nitrogenReleased: "number",
+        originalStage: "string",
+    },
+});
@@ -1,10 +1,14 @@
 
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 
 export class Needs extends Component {
     public water: number = 50;
     public sunlight: number = 50;
+    // Nutrient buffers (field names match the Nutrient type)
     public nitrogen: number = 50;
+    public phosphorus: number = 50;
+    public potassium: number = 50;
 
     // Last tick's water absorption amount (for visualization)
     public lastAbsorption: number = 0;
@@ -13,3 +17,17 @@ export class Needs extends Component {
     // Thresholds could be implicitly defined by the species ID in PlantState, 
     // but storing current status here is good.
 }
+
+registerComponent(Needs, {
+    id: "Needs",
+    description: "Internal water/NPK buffers and last absorption.",
+    schema: {
+        water: "number",
+        sunlight: "number",
+        nitrogen: "number",
+        phosphorus: "number",
+        potassium: "number",
+        lastAbsorption: "number",
+        lastNitrogenAbsorption: "number",
+    },
+});
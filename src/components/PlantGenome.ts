@@ -1,5 +1,6 @@
 
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 import * as BABYLON from "@babylonjs/core";
 
 export type PlantType = "sunflower";
@@ -27,3 +28,14 @@ export class PlantGenome extends Component {
         this.flowerColor = flowerColor;
     }
 }
+
+registerComponent(PlantGenome, {
+    id: "PlantGenome",
+    description: "Plant type and visual traits.",
+    schema: {
+        type: "string",
+        maxScale: "number",
+        stemColor: "color3",
+        flowerColor: "color3",
+    },
+});
@@ -1,5 +1,6 @@
 
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 
 export type PlantStage = "seed" | "sprout" | "vegetative" | "flowering";
 
@@ -44,3 +45,23 @@ export class PlantState extends Component {
         return Math.floor(this.growthProgress);
     }
 }
+
+registerComponent(PlantState, {
+    id: "PlantState",
+    description: "Growth, health and stress of a living plant.",
+    schema: {
+        age: "number",
+        sunlitAge: "number",
+        health: "number",
+        speciesID: "string",
+        growthProgress: "number",
+        waterCompetitionPenalty: "number",
+        inComa: "boolean",
+        comaTimeRemaining: "number",
+        stressLevel: "number",
+        currentDroop: "number",
+        targetDroop: "number",
+        currentDesaturation: "number",
+        targetDesaturation: "number",
+    },
+});
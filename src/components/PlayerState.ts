@@ -1,4 +1,5 @@
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 
 /**
  * Global player state for tracking resources like seeds.
@@ -8,3 +9,9 @@ export class PlayerState extends Component {
     /** Number of seeds available for planting */
     public seeds: number = 5;
 }
+
+registerComponent(PlayerState, {
+    id: "PlayerState",
+    description: "Player resources (singleton player entity).",
+    schema: { seeds: "number" },
+});
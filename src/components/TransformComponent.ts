@@ -1,4 +1,5 @@
 import { Component } from "../core/ECS";
+import { registerComponent } from "../core/ComponentRegistry";
 
 export class TransformComponent extends Component {
     public x: number = 0;
@@ -12,3 +13,9 @@ export class TransformComponent extends Component {
         this.z = z;
     }
 }
+
+registerComponent(TransformComponent, {
+    id: "TransformComponent",
+    description: "World position.",
+    schema: { x: "number", y: "number", z: "number" },
+});
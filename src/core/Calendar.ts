@@ -0,0 +1,152 @@
+/**
+ * Conditions that change over the year. Each season's values hold at its
+ * midpoint and are blended linearly towards the neighbouring seasons, so
+ * days cool and warm gradually instead of jumping on the first day.
+ * (Day length isn't a season setting: SunPath derives it from the latitude.)
+ */
+export interface SeasonConditions {
+    rainChance: number;       // Wetness (0-1); WeatherMachine scales wet states by rainChance / 0.3
+    baseTemperature: number;  // Daily mean air temperature (°C)
+    growthRate: number;       // Multiplier on plant growth (1 = normal)
+    foliageTint: [number, number, number]; // RGB multiplier for background foliage
+}
+
+export interface SeasonDefinition extends SeasonConditions {
+    name: string;
+    icon: string;
+    days: number;             // Length in game-days
+}
+
+/**
+ * A day's place in the calendar. Days and years are 1-based for display.
+ */
+export interface CalendarDate {
+    year: number;
+    season: SeasonDefinition;
+    seasonIndex: number;
+    dayOfSeason: number;
+    dayOfYear: number;
+}
+
+export const DEFAULT_SEASONS: SeasonDefinition[] = [
+    {
+        name: "Spring", icon: "🌸", days: 7,
+        rainChance: 0.35, baseTemperature: 12,
+        growthRate: 1.0, foliageTint: [0.85, 1.15, 0.75],
+    },
+    {
+        name: "Summer", icon: "☀️", days: 7,
+        rainChance: 0.2, baseTemperature: 22,
+        growthRate: 1.2, foliageTint: [1, 1, 1],
+    },
+    {
+        name: "Autumn", icon: "🍂", days: 7,
+        rainChance: 0.4, baseTemperature: 11,
+        growthRate: 0.7, foliageTint: [2.6, 1.0, 0.45],
+    },
+    {
+        name: "Winter", icon: "❄️", days: 7,
+        rainChance: 0.3, baseTemperature: 2,
+        growthRate: 0.25, foliageTint: [1.1, 0.8, 0.9],
+    },
+];
+
+/**
+ * Calendar maps game-days onto seasons and years. The year length is the sum
+ * of the season lengths; pass different seasons to change either.
+ */
+export class Calendar {
+    public readonly seasons: readonly SeasonDefinition[];
+    public readonly yearLength: number;
+
+    private seasonStarts: number[] = [];
+    private midpoints: number[] = [];
+
+    constructor(seasons: SeasonDefinition[] = DEFAULT_SEASONS) {
+        if (seasons.length === 0) {
+            throw new Error("Calendar needs at least one season");
+        }
+        this.seasons = seasons;
+
+        let start = 0;
+        for (const season of seasons) {
+            if (season.days <= 0) {
+                throw new Error(`Season "${season.name}" must last at least one day`);
+            }
+            this.seasonStarts.push(start);
+            this.midpoints.push(start + season.days / 2);
+            start += season.days;
+        }
+        this.yearLength = start;
+    }
+
+    /**
+     * Calendar date of a 0-based game-day.
+     */
+    public getDate(day: number): CalendarDate {
+        const dayOfYear = this.wrap(Math.floor(day));
+        const seasonIndex = this.seasonIndexAt(dayOfYear);
+        return {
+            year: Math.floor(Math.floor(day) / this.yearLength) + 1,
+            season: this.seasons[seasonIndex],
+            seasonIndex,
+            dayOfSeason: dayOfYear - this.seasonStarts[seasonIndex] + 1,
+            dayOfYear: dayOfYear + 1,
+        };
+    }
+
+    /**
+     * Blended conditions at a fractional game-day (e.g. 3.5 = noon on day 4).
+     */
+    public getConditions(day: number): SeasonConditions {
+        const count = this.seasons.length;
+        const yearDay = this.wrap(day);
+
+        // The last midpoint at or before yearDay, wrapping to the previous year
+        let from = count - 1;
+        for (let i = 0; i < count; i++) {
+            if (this.midpoints[i] <= yearDay) from = i;
+        }
+        const to = (from + 1) % count;
+
+        let fromMid = this.midpoints[from];
+        let toMid = this.midpoints[to];
+        if (fromMid > yearDay) fromMid -= this.yearLength;
+        if (toMid <= fromMid) toMid += this.yearLength;
+        const t = count === 1 ? 0 : (yearDay - fromMid) / (toMid - fromMid);
+
+        const a = this.seasons[from];
+        const b = this.seasons[to];
+        const lerp = (x: number, y: number) => x + (y - x) * t;
+        return {
+            rainChance: lerp(a.rainChance, b.rainChance),
+            baseTemperature: lerp(a.baseTemperature, b.baseTemperature),
+            growthRate: lerp(a.growthRate, b.growthRate),
+            foliageTint: [
+                lerp(a.foliageTint[0], b.foliageTint[0]),
+                lerp(a.foliageTint[1], b.foliageTint[1]),
+                lerp(a.foliageTint[2], b.foliageTint[2]),
+            ],
+        };
+    }
+
+    /**
+     * How far through its year a fractional game-day is (0-1, 0 = first day of
+     * the first season).
+     */
+    public getYearFraction(day: number): number {
+        return this.wrap(day) / this.yearLength;
+    }
+
+    private seasonIndexAt(dayOfYear: number): number {
+        let index = 0;
+        for (let i = 0; i < this.seasonStarts.length; i++) {
+            if (this.seasonStarts[i] <= dayOfYear) index = i;
+        }
+        return index;
+    }
+
+    private wrap(day: number): number {
+        return ((day % this.yearLength) + this.yearLength) % this.yearLength;
+    }
+}
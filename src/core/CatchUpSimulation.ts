@@ -0,0 +1,147 @@
+import { World } from "./ECS";
+import { GameLoop } from "./GameLoop";
+import { DeadPlantState } from "../components/DeadPlantState";
+import { TimeSystem } from "../systems/TimeSystem";
+import { SoilSystem } from "../systems/SoilSystem";
+import { GrowthSystem } from "../systems/GrowthSystem";
+import { BuildingSystem } from "../systems/BuildingSystem";
+import { DecaySystem } from "../systems/DecaySystem";
+
+/**
+ * What happened during a catch-up, for the "while you were away" summary.
+ */
+export interface CatchUpSummary {
+    hours: number;            // Game-hours simulated
+    grew: number;             // Plants that moved up at least one growth stage
+    flowered: number;         // Plants that reached flowering
+    died: number;
+    decomposed: number;       // Dead plants that fully decayed and disappeared
+    rainHours: number;        // Game-hours with rain falling
+    moistureBefore: number;   // Average soil moisture per cell
+    moistureAfter: number;
+    nitrogenBefore: number;   // Average soil nitrogen per cell
+    nitrogenAfter: number;
+}
+
+/**
+ * CatchUpSimulation advances a loaded garden by the game-hours the player
+ * missed, in coarse steps instead of fixed ticks. Only the simulation runs
+ * (clock and weather, soil, growth, hoses, decay): no render systems, shadow
+ * raycasts or GPU uploads. Results are close to, not identical to, playing
+ * those hours live.
+ */
+export class CatchUpSimulation {
+    // Length of one coarse step in game-hours (a fixed tick is 0.02)
+    public static readonly STEP_HOURS = 0.25;
+    // Garden time passes at wall-clock pace while the game is closed...
+    public static readonly HOURS_PER_REAL_HOUR = 1;
+    // ...up to two days, so a long break doesn't leave a field of dead plants
+    public static readonly MAX_HOURS = 48;
+    // Shorter absences aren't worth a prompt
+    public static readonly MIN_HOURS = 1;
+
+    private world: World;
+    private timeSystem: TimeSystem;
+    private soilSystem: SoilSystem;
+    private growthSystem: GrowthSystem;
+    private buildingSystem: BuildingSystem | null;
+    private decaySystem: DecaySystem;
+
+    constructor(
+        world: World,
+        timeSystem: TimeSystem,
+        soilSystem: SoilSystem,
+        growthSystem: GrowthSystem,
+        buildingSystem: BuildingSystem | null,
+        decaySystem: DecaySystem,
+    ) {
+        this.world = world;
+        this.timeSystem = timeSystem;
+        this.soilSystem = soilSystem;
+        this.growthSystem = growthSystem;
+        this.buildingSystem = buildingSystem;
+        this.decaySystem = decaySystem;
+    }
+
+    /**
+     * Game-hours to catch up for a save written at `savedAt` (ISO timestamp),
+     * capped at MAX_HOURS. Returns 0 below MIN_HOURS.
+     */
+    public static missedHours(savedAt: string, now: Date = new Date()): number {
+        const realHours = (now.getTime() - new Date(savedAt).getTime()) / 3_600_000;
+        const hours = Math.min(CatchUpSimulation.MAX_HOURS, realHours * CatchUpSimulation.HOURS_PER_REAL_HOUR);
+        return hours >= CatchUpSimulation.MIN_HOURS ? hours : 0;
+    }
+
+    /**
+     * Simulate `hours` game-hours and report what changed.
+     */
+    public run(hours: number): CatchUpSummary {
+        const cells = this.soilSystem.GRID_SIZE * this.soilSystem.GRID_SIZE;
+        const summary: CatchUpSummary = {
+            hours,
+            grew: 0,
+            flowered: 0,
+            died: 0,
+            decomposed: 0,
+            rainHours: 0,
+            moistureBefore: this.soilSystem.getTotalMoisture() / cells,
+            moistureAfter: 0,
+            nitrogenBefore: this.soilSystem.getTotalNutrient("nitrogen") / cells,
+            nitrogenAfter: 0,
+        };
+
+        const grew = new Set<number>();
+        const flowered = new Set<number>();
+        const unsubscribe = [
+            this.world.events.on("plantStageChanged", ({ entityId, to }) => {
+                grew.add(entityId);
+                if (to === "flowering") flowered.add(entityId);
+            }),
+            this.world.events.on("plantDied", () => {
+                summary.died++;
+            }),
+            this.world.events.on("entityDestroyed", ({ entity }) => {
+                if (entity.hasComponent(DeadPlantState)) summary.decomposed++;
+            }),
+        ];
+
+        try {
+            const steps = Math.ceil(hours / CatchUpSimulation.STEP_HOURS);
+            const stepHours = hours / Math.max(1, steps);
+            const stepSeconds = stepHours / this.timeSystem.HOURS_PER_REAL_SECOND;
+            for (let i = 0; i < steps; i++) {
+                this.step(stepSeconds);
+                if (this.timeSystem.isRaining()) {
+                    summary.rainHours += stepHours;
+                }
+            }
+
+            // Keep the tick counter in line with the time that passed
+            const ticks = Math.round(hours / this.timeSystem.HOURS_PER_REAL_SECOND * GameLoop.TICK_RATE);
+            this.world.setTick(this.world.getTick() + ticks);
+        } finally {
+            unsubscribe.forEach(off => off());
+        }
+
+        // Sunlight was approximated; let the next live tick raycast again
+        this.growthSystem.clearCache();
+
+        summary.grew = grew.size;
+        summary.flowered = flowered.size;
+        summary.moistureAfter = this.soilSystem.getTotalMoisture() / cells;
+        summary.nitrogenAfter = this.soilSystem.getTotalNutrient("nitrogen") / cells;
+        return summary;
+    }
+
+    private step(deltaTime: number): void {
+        // Same order as the fixed schedule, with the same sync points
+        this.timeSystem.update(deltaTime);
+        this.soilSystem.updateCoarse(deltaTime);
+        this.growthSystem.updateCoarse(deltaTime);
+        this.world.commands.flush();
+        this.buildingSystem?.update(deltaTime);
+        this.decaySystem.update(deltaTime);
+        this.world.commands.flush();
+    }
+}
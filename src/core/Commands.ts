@@ -0,0 +1,37 @@
+import { EntityID } from "./ECS";
+import type { BuildingType, ToolType } from "../ui/ToolManager";
+import type { AmendmentType } from "./Nutrients";
+import type { GroundType } from "./Ground";
+
+/**
+ * Serializable player actions. Every change the player makes to the world goes
+ * through CommandSystem.dispatch() as one of these, stamped with the fixed tick
+ * it applies at, so a session can be recorded and replayed tick by tick.
+ *
+ * Positions are world coordinates; durations are the real seconds an action
+ * was held for (spray and compost are continuous). Spray and compost carry a
+ * stroke number so one press-and-drag undoes as a single step. Compost commands
+ * without an amendment (older recordings) spread compost. Ground painting
+ * covers the one cell under the cursor and is stroked the same way.
+ */
+export type PlayerCommand =
+    | { type: "plant"; tick: number; x: number; z: number }
+    | { type: "build"; tick: number; building: BuildingType; x: number; z: number }
+    | { type: "harvest"; tick: number; entityId: EntityID }
+    | { type: "sprayWater"; tick: number; x: number; z: number; duration: number; stroke?: number }
+    | { type: "applyCompost"; tick: number; x: number; z: number; duration: number; stroke?: number; amendment?: AmendmentType }
+    | { type: "paintGround"; tick: number; x: number; z: number; ground: GroundType; stroke?: number }
+    | { type: "selectTool"; tick: number; tool: ToolType; building?: BuildingType; amendment?: AmendmentType; ground?: GroundType }
+    | { type: "undo"; tick: number }
+    | { type: "redo"; tick: number }
+    | { type: "sleep"; tick: number }
+    | { type: "wake"; tick: number };
+
+export type PlayerCommandType = PlayerCommand["type"];
+
+type WithoutTick<T> = T extends unknown ? Omit<T, "tick"> : never;
+
+/**
+ * A command before the dispatcher stamps its tick.
+ */
+export type PlayerCommandInput = WithoutTick<PlayerCommand>;
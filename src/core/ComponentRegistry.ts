@@ -0,0 +1,104 @@
+import type { Component, Entity } from "./ECS";
+
+export type ComponentClass<T extends Component = Component> = { new(...args: any[]): T };
+
+/**
+ * Value types a component field can hold. `color3` is a BABYLON.Color3.
+ */
+export type FieldType = "number" | "string" | "boolean" | "color3";
+
+export type ComponentSchema = Record<string, FieldType>;
+
+/**
+ * Registry entry for a component class.
+ *
+ * `id` is the stable type identifier used as the key in entities, queries and
+ * save files. It is written out explicitly because class names don't survive
+ * minification. Never change an id once saves exist; add a save migration instead.
+ */
+export interface ComponentType<T extends Component = Component> {
+    id: string;
+    ctor: { new(): T };
+    /** Fields that are saved, restored and shown by debug tools. */
+    schema: ComponentSchema;
+    /** Whether the component is written to save files (default true). */
+    persistent: boolean;
+    description: string;
+}
+
+export interface ComponentRegistration {
+    id: string;
+    schema: ComponentSchema;
+    persistent?: boolean;
+    description?: string;
+}
+
+const typesByClass: Map<Function, ComponentType> = new Map();
+const typesById: Map<string, ComponentType> = new Map();
+
+/**
+ * Register a component class. Call once, right after the class definition.
+ * The class must be constructible without arguments (restores rely on it).
+ */
+export function registerComponent<T extends Component>(ctor: { new(): T }, registration: ComponentRegistration): ComponentType<T> {
+    const existing = typesById.get(registration.id);
+    if (existing && existing.ctor !== ctor) {
+        throw new Error(`Component id "${registration.id}" is already registered`);
+    }
+
+    const type: ComponentType<T> = {
+        id: registration.id,
+        ctor,
+        schema: registration.schema,
+        persistent: registration.persistent ?? true,
+        description: registration.description ?? "",
+    };
+    typesByClass.set(ctor, type as ComponentType);
+    typesById.set(type.id, type as ComponentType);
+    return type;
+}
+
+/**
+ * Registry entry for a component class. Throws for unregistered classes so a
+ * missing registration fails loudly instead of falling back to class names.
+ */
+export function componentType<T extends Component>(ctor: ComponentClass<T>): ComponentType<T> {
+    const type = typesByClass.get(ctor);
+    if (!type) {
+        throw new Error(`Component class ${ctor.name} is not registered (see registerComponent)`);
+    }
+    return type as ComponentType<T>;
+}
+
+export function componentTypeOf(component: Component): ComponentType {
+    return componentType(component.constructor as ComponentClass);
+}
+
+export function componentTypeById(id: string): ComponentType | undefined {
+    return typesById.get(id);
+}
+
+export function registeredComponents(): ComponentType[] {
+    return Array.from(typesById.values());
+}
+
+/**
+ * Readable dump of an entity's components for debugging: registry IDs as keys,
+ * schema fields only, colors as hex strings.
+ */
+export function describeEntity(entity: Entity): Record<string, Record<string, unknown>> {
+    const description: Record<string, Record<string, unknown>> = {};
+    for (const component of entity.getAllComponents()) {
+        const type = componentTypeOf(component);
+        const source = component as unknown as Record<string, unknown>;
+        const fields: Record<string, unknown> = {};
+        for (const [name, fieldType] of Object.entries(type.schema)) {
+            const value = source[name];
+            fields[name] = fieldType === "color3"
+                ? (value as { toHexString(): string }).toHexString()
+                : value;
+        }
+        description[type.id] = fields;
+    }
+    return description;
+}
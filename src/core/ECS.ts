@@ -1,3 +1,9 @@
+import { RandomService } from "./Random";
+import { EventBus, GameEvents } from "./Events";
+import { Query } from "./Query";
+import { EntityCommandBuffer } from "./EntityCommandBuffer";
+import { ComponentClass, componentType, componentTypeOf } from "./ComponentRegistry";
+import { Profiler } from "./Profiler";
 
 export type EntityID = number;
 
@@ -6,17 +12,57 @@ export enum SystemType {
     RENDER = "render",
 }
 
+/**
+ * Execution phases, in order. Within each loop (fixed ticks or render frames),
+ * every system of an earlier phase runs before any system of a later one.
+ */
+export enum SystemPhase {
+    INPUT = "input",
+    SIMULATION = "simulation",
+    POST_SIMULATION = "post-simulation",
+    PRESENTATION = "presentation",
+}
+
+const PHASE_ORDER: SystemPhase[] = [
+    SystemPhase.INPUT,
+    SystemPhase.SIMULATION,
+    SystemPhase.POST_SIMULATION,
+    SystemPhase.PRESENTATION,
+];
+
+export type SystemClass = { new(...args: any[]): System };
+
+/**
+ * Where a system runs. `after`/`before` only order systems of the same
+ * SystemType; dependencies on systems that aren't registered are ignored
+ * (e.g. LightingSystem in headless runs).
+ */
+export interface SystemSchedule {
+    phase: SystemPhase;
+    after?: SystemClass[];
+    before?: SystemClass[];
+}
+
+/**
+ * Base class for components. Every subclass must be registered with
+ * registerComponent() (ComponentRegistry.ts), which gives it a stable type ID.
+ */
 export abstract class Component {
     public entityID: EntityID = -1;
 }
 
 export abstract class System {
+    // Stable name for the profiler, schedule errors and logs (class names are minified in builds)
+    public abstract readonly name: string;
     protected world: World;
     public readonly systemType: SystemType;
+    // Subclasses override this to declare their phase and dependencies
+    public readonly schedule: SystemSchedule;
 
     constructor(world: World, systemType: SystemType = SystemType.FIXED) {
         this.world = world;
         this.systemType = systemType;
+        this.schedule = { phase: systemType === SystemType.FIXED ? SystemPhase.SIMULATION : SystemPhase.PRESENTATION };
     }
 
     public abstract update(deltaTime: number): void;
@@ -24,6 +70,7 @@ export abstract class System {
 
 export class Entity {
     public id: EntityID;
+    // Keyed by stable component type ID
     private components: Map<string, Component> = new Map();
     private world: World;
 
@@ -34,77 +81,145 @@ export class Entity {
 
     public addComponent(component: Component): void {
         component.entityID = this.id;
-        const componentName = component.constructor.name;
-        this.components.set(componentName, component);
-        this.world.onComponentAdded(this, componentName);
+        const typeId = componentTypeOf(component).id;
+        this.components.set(typeId, component);
+        this.world.onComponentAdded(this, typeId);
     }
 
-    public getComponent<T extends Component>(componentClass: { new(...args: any[]): T }): T | undefined {
-        return this.components.get(componentClass.name) as T;
+    public getComponent<T extends Component>(componentClass: ComponentClass<T>): T | undefined {
+        return this.components.get(componentType(componentClass).id) as T;
     }
 
-    public hasComponent(componentClass: { new(...args: any[]): Component }): boolean {
-        return this.components.has(componentClass.name);
+    public hasComponent(componentClass: ComponentClass): boolean {
+        return this.components.has(componentType(componentClass).id);
     }
 
-    public removeComponent(componentClass: { new(...args: any[]): Component }): void {
-        const componentName = componentClass.name;
-        if (this.components.has(componentName)) {
-            this.components.delete(componentName);
-            this.world.onComponentRemoved(this, componentName);
+    public removeComponent(componentClass: ComponentClass): void {
+        const typeId = componentType(componentClass).id;
+        if (this.components.has(typeId)) {
+            this.components.delete(typeId);
+            this.world.onComponentRemoved(this, typeId);
         }
     }
 
-    public getAllComponentNames(): string[] {
+    public getComponentTypeIds(): string[] {
         return Array.from(this.components.keys());
     }
+
+    public getAllComponents(): Component[] {
+        return Array.from(this.components.values());
+    }
 }
 
 export class World {
     private entities: Map<EntityID, Entity> = new Map();
+    // Systems in registration order; execution order comes from their schedules
+    private systems: System[] = [];
     private fixedSystems: System[] = [];
     private renderSystems: System[] = [];
+    private scheduleDirty: boolean = false;
     private nextEntityID: EntityID = 0;
+    // Number of fixed ticks simulated so far (the tick currently running inside updateFixed)
+    private tick: number = 0;
 
-    // Cache entities by component name for O(1) access
+    // Cache entities by component type ID for O(1) access
     private componentCache: Map<string, Set<Entity>> = new Map();
 
+    // Cached multi-component queries, by key and by the component type IDs they depend on
+    private queries: Map<string, Query<any>> = new Map();
+    private queriesByComponent: Map<string, Query<any>[]> = new Map();
+
+    // Seeded randomness shared by all systems (see Random.ts)
+    public readonly random: RandomService;
+
+    // Lifecycle and gameplay events (see Events.ts)
+    public readonly events = new EventBus<GameEvents>();
+
+    // Deferred structural changes, flushed between FIXED systems (see EntityCommandBuffer.ts)
+    public readonly commands: EntityCommandBuffer = new EntityCommandBuffer(this);
+
+    // Per-system timings over a rolling window of frames (see Profiler.ts)
+    public readonly profiler: Profiler = new Profiler();
+
+    constructor(seed?: number) {
+        this.random = new RandomService(seed);
+    }
+
     public createEntity(): Entity {
         const entity = new Entity(this.nextEntityID++, this);
         this.entities.set(entity.id, entity);
+        this.events.emit("entityCreated", { entity });
+        return entity;
+    }
+
+    /**
+     * Create an entity with a specific ID (used when restoring saved games).
+     * Keeps nextEntityID ahead of every restored ID so new entities never collide.
+     */
+    public createEntityWithId(id: EntityID): Entity {
+        if (this.entities.has(id)) {
+            throw new Error(`Entity ${id} already exists`);
+        }
+        const entity = new Entity(id, this);
+        this.entities.set(id, entity);
+        this.nextEntityID = Math.max(this.nextEntityID, id + 1);
+        this.events.emit("entityCreated", { entity });
         return entity;
     }
 
     public removeEntity(id: EntityID): void {
         const entity = this.entities.get(id);
         if (entity) {
+            this.events.emit("entityDestroyed", { entity });
+            this.entities.delete(id);
+            for (const query of this.queries.values()) {
+                query.remove(id);
+            }
             // Remove from all component caches
-            for (const componentName of entity.getAllComponentNames()) {
-                this.onComponentRemoved(entity, componentName);
+            for (const typeId of entity.getComponentTypeIds()) {
+                this.onComponentRemoved(entity, typeId);
             }
-            this.entities.delete(id);
         }
     }
 
+    /**
+     * Remove every entity (systems are kept).
+     */
+    public clearEntities(): void {
+        for (const id of Array.from(this.entities.keys())) {
+            this.removeEntity(id);
+        }
+    }
+
+    /**
+     * Claim an entity ID without creating the entity yet (deferred creation).
+     */
+    public reserveEntityId(): EntityID {
+        return this.nextEntityID++;
+    }
+
+    public getNextEntityID(): EntityID {
+        return this.nextEntityID;
+    }
+
+    public setNextEntityID(id: EntityID): void {
+        this.nextEntityID = Math.max(id, 0);
+    }
+
     public getEntity(id: EntityID): Entity | undefined {
         return this.entities.get(id);
     }
 
-    public addSystem(system: System): void {
-        if (system.systemType === SystemType.FIXED) {
-            this.fixedSystems.push(system);
-        } else {
-            this.renderSystems.push(system);
-        }
+    /**
+     * Register systems in any order; they run in the order their schedules imply.
+     */
+    public addSystem(...systems: System[]): void {
+        this.systems.push(...systems);
+        this.scheduleDirty = true;
     }
 
     public getSystem<T extends System>(systemClass: { new(...args: any[]): T }): T | undefined {
-        for (const system of this.fixedSystems) {
-            if (system instanceof systemClass) {
-                return system as T;
-            }
-        }
-        for (const system of this.renderSystems) {
+        for (const system of this.systems) {
             if (system instanceof systemClass) {
                 return system as T;
             }
@@ -112,30 +227,116 @@ export class World {
         return undefined;
     }
 
+    /**
+     * Validate every schedule and compute the execution order. Throws on
+     * dependency cycles and on dependencies that contradict phases. Runs
+     * automatically before the first update after systems change.
+     */
+    public buildSchedule(): void {
+        this.fixedSystems = orderSystems(this.systems.filter(s => s.systemType === SystemType.FIXED));
+        this.renderSystems = orderSystems(this.systems.filter(s => s.systemType === SystemType.RENDER));
+        this.scheduleDirty = false;
+    }
+
+    /**
+     * Systems of one type in execution order (for debugging and profiling).
+     */
+    public getSystemOrder(systemType: SystemType): readonly System[] {
+        if (this.scheduleDirty) this.buildSchedule();
+        return systemType === SystemType.FIXED ? this.fixedSystems : this.renderSystems;
+    }
+
     public updateFixed(deltaTime: number): void {
+        if (this.scheduleDirty) this.buildSchedule();
+        const profiler = this.profiler.enabled ? this.profiler : null;
         for (const system of this.fixedSystems) {
+            const start = profiler ? performance.now() : 0;
             system.update(deltaTime);
+            // Sync point: each system sees the structural changes of the ones before it.
+            // The flush is timed with the system that queued the changes.
+            this.commands.flush();
+            profiler?.recordSystem(system.name, SystemType.FIXED, performance.now() - start);
         }
+        this.tick++;
+    }
+
+    public getTick(): number {
+        return this.tick;
+    }
+
+    public setTick(tick: number): void {
+        this.tick = Math.max(tick, 0);
     }
 
     public updateRender(deltaTime: number): void {
+        if (this.scheduleDirty) this.buildSchedule();
+        const profiler = this.profiler.enabled ? this.profiler : null;
         for (const system of this.renderSystems) {
+            const start = profiler ? performance.now() : 0;
             system.update(deltaTime);
+            profiler?.recordSystem(system.name, SystemType.RENDER, performance.now() - start);
         }
     }
 
-    public onComponentAdded(entity: Entity, componentName: string): void {
-        if (!this.componentCache.has(componentName)) {
-            this.componentCache.set(componentName, new Set());
+    public onComponentAdded(entity: Entity, typeId: string): void {
+        if (!this.componentCache.has(typeId)) {
+            this.componentCache.set(typeId, new Set());
         }
-        this.componentCache.get(componentName)!.add(entity);
+        this.componentCache.get(typeId)!.add(entity);
+        this.refreshQueries(entity, typeId);
+        this.events.emit("componentAdded", { entity, componentId: typeId });
     }
 
-    public onComponentRemoved(entity: Entity, componentName: string): void {
-        const cache = this.componentCache.get(componentName);
+    public onComponentRemoved(entity: Entity, typeId: string): void {
+        const cache = this.componentCache.get(typeId);
         if (cache) {
             cache.delete(entity);
         }
+        this.refreshQueries(entity, typeId);
+        this.events.emit("componentRemoved", { entity, componentId: typeId });
+    }
+
+    private refreshQueries(entity: Entity, typeId: string): void {
+        // Removed entities were already dropped from every query
+        if (!this.entities.has(entity.id)) return;
+        const queries = this.queriesByComponent.get(typeId);
+        if (!queries) return;
+        for (const query of queries) {
+            query.refresh(entity);
+        }
+    }
+
+    /**
+     * Cached live view of entities that have all the given components,
+     * iterated as [entity, ...components] tuples. Chain .without() to exclude
+     * components. Repeated calls with the same components return the same view.
+     */
+    public query<T extends ComponentClass[]>(...components: T): Query<T> {
+        return this.getQuery(components, []);
+    }
+
+    public getQuery<T extends ComponentClass[]>(withClasses: T, withoutClasses: ComponentClass[]): Query<T> {
+        const key = Query.keyFor(withClasses, withoutClasses);
+        const cached = this.queries.get(key);
+        if (cached) return cached as Query<T>;
+
+        const query = new Query(this, withClasses, withoutClasses);
+        this.queries.set(key, query);
+        for (const typeId of query.getComponentTypeIds()) {
+            if (!this.queriesByComponent.has(typeId)) {
+                this.queriesByComponent.set(typeId, []);
+            }
+            this.queriesByComponent.get(typeId)!.push(query);
+        }
+
+        // Populate from the first required component's cache
+        const candidates = withClasses.length > 0
+            ? this.getEntitiesWithComponent(withClasses[0])
+            : this.entities.values();
+        for (const entity of candidates) {
+            query.refresh(entity);
+        }
+        return query;
     }
 
     /**
@@ -143,11 +344,72 @@ export class World {
      * This is O(1) access.
      * The returned Set is Readonly to prevent tampering.
      */
-    public getEntitiesWithComponent<T extends Component>(componentClass: { new(...args: any[]): T }): ReadonlySet<Entity> {
-        return this.componentCache.get(componentClass.name) || new Set();
+    public getEntitiesWithComponent<T extends Component>(componentClass: ComponentClass<T>): ReadonlySet<Entity> {
+        return this.componentCache.get(componentType(componentClass).id) || new Set();
     }
 
     public getAllEntities(): Entity[] {
         return Array.from(this.entities.values());
     }
 }
+
+/**
+ * Topologically sort systems by their before/after constraints. Phases act as
+ * implicit constraints, and ties keep registration order so the result is
+ * deterministic.
+ */
+function orderSystems(systems: System[]): System[] {
+    const rank = (system: System) => PHASE_ORDER.indexOf(system.schedule.phase);
+    const find = (systemClass: SystemClass) => systems.find(s => s instanceof systemClass);
+
+    // edges.get(a) = systems that must run after a
+    const edges: Map<System, Set<System>> = new Map(systems.map(s => [s, new Set<System>()]));
+    const addEdge = (first: System, second: System) => {
+        if (first === second) return;
+        if (rank(first) > rank(second)) {
+            throw new Error(
+                `System schedule conflict: ${second.name} (${second.schedule.phase}) ` +
+                `cannot run after ${first.name} (${first.schedule.phase})`
+            );
+        }
+        edges.get(first)!.add(second);
+    };
+
+    for (const system of systems) {
+        for (const dependency of system.schedule.after ?? []) {
+            const other = find(dependency);
+            if (other) addEdge(other, system);
+        }
+        for (const dependent of system.schedule.before ?? []) {
+            const other = find(dependent);
+            if (other) addEdge(system, other);
+        }
+    }
+
+    const incoming: Map<System, number> = new Map(systems.map(s => [s, 0]));
+    for (const targets of edges.values()) {
+        for (const target of targets) {
+            incoming.set(target, incoming.get(target)! + 1);
+        }
+    }
+
+    const ordered: System[] = [];
+    const ready = systems.filter(s => incoming.get(s) === 0);
+    while (ready.length > 0) {
+        // Earliest phase first, then registration order
+        ready.sort((a, b) => rank(a) - rank(b) || systems.indexOf(a) - systems.indexOf(b));
+        const next = ready.shift()!;
+        ordered.push(next);
+        for (const target of edges.get(next)!) {
+            const remaining = incoming.get(target)! - 1;
+            incoming.set(target, remaining);
+            if (remaining === 0) ready.push(target);
+        }
+    }
+
+    if (ordered.length < systems.length) {
+        const stuck = systems.filter(s => !ordered.includes(s)).map(s => s.name);
+        throw new Error(`System schedule has a dependency cycle among: ${stuck.join(", ")}`);
+    }
+    return ordered;
+}
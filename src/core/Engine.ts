@@ -4,7 +4,7 @@ import { PerlinNoise } from "./PerlinNoise";
 
 export class Engine {
     private static instance: Engine;
-    private canvas: HTMLCanvasElement;
+    private canvas: HTMLCanvasElement | null;
     private engine: BABYLON.Engine;
     private scene: BABYLON.Scene;
     private groundMaterial: BABYLON.StandardMaterial | null = null;
@@ -17,9 +17,10 @@ export class Engine {
     private readonly TERRAIN_OCTAVES = 4;    // Detail levels
     private readonly TERRAIN_SEED = 42;      // Random seed for reproducibility
 
-    private constructor(canvas: HTMLCanvasElement) {
+    private constructor(canvas: HTMLCanvasElement | null) {
         this.canvas = canvas;
-        this.engine = new BABYLON.Engine(this.canvas, true);
+        // Without a canvas, run on a NullEngine (no GPU / DOM needed)
+        this.engine = canvas ? new BABYLON.Engine(canvas, true) : new BABYLON.NullEngine();
         this.scene = new BABYLON.Scene(this.engine);
         this.perlinNoise = new PerlinNoise(this.TERRAIN_SEED);
 
@@ -36,6 +37,26 @@ export class Engine {
         return Engine.instance;
     }
 
+    /**
+     * Initialize the singleton on Babylon's NullEngine, for headless simulation
+     * (Node scripts, CI, balancing runs). Must be called before anything else
+     * touches Engine.getInstance().
+     */
+    public static createHeadless(): Engine {
+        if (Engine.instance) {
+            if (!Engine.instance.isHeadless()) {
+                throw new Error("Engine already initialized with a canvas.");
+            }
+            return Engine.instance;
+        }
+        Engine.instance = new Engine(null);
+        return Engine.instance;
+    }
+
+    public isHeadless(): boolean {
+        return this.canvas === null;
+    }
+
     public getScene(): BABYLON.Scene {
         return this.scene;
     }
@@ -56,7 +77,9 @@ export class Engine {
         // Camera setup
         const camera = new BABYLON.FreeCamera("camera1", new BABYLON.Vector3(0, 15, -25), this.scene);
         camera.setTarget(BABYLON.Vector3.Zero());
-        camera.attachControl(this.canvas, true);
+        if (this.canvas) {
+            camera.attachControl(this.canvas, true);
+        }
 
         // Note: Lighting is now handled by LightingSystem
 
@@ -124,6 +147,15 @@ export class Engine {
         return height * this.TERRAIN_HEIGHT;
     }
 
+    /**
+     * Capture a small PNG of the current camera view (used for save slot thumbnails).
+     */
+    public captureThumbnail(width: number = 320, height: number = 180): Promise<string | null> {
+        const camera = this.scene.activeCamera;
+        if (!camera || this.isHeadless()) return Promise.resolve(null);
+        return BABYLON.Tools.CreateScreenshotAsync(this.engine, camera, { width, height });
+    }
+
     public toggleInspector(): void {
         if (this.scene.debugLayer.isVisible()) {
             this.scene.debugLayer.hide();
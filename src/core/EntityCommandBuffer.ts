@@ -0,0 +1,94 @@
+import type { Component, EntityID, World } from "./ECS";
+import type { ComponentClass } from "./ComponentRegistry";
+
+type EntityCommand =
+    | { type: "create"; id: EntityID; components: Component[] }
+    | { type: "destroy"; id: EntityID }
+    | { type: "addComponent"; id: EntityID; component: Component }
+    | { type: "removeComponent"; id: EntityID; componentClass: ComponentClass };
+
+/**
+ * Structural changes queued while a system iterates, applied in order at the
+ * next sync point (World.updateFixed flushes after every FIXED system).
+ *
+ * Systems can keep iterating live sets and queries safely: nothing is created,
+ * destroyed or restructured until the flush. Commands that target an entity
+ * destroyed earlier in the same flush are skipped.
+ */
+export class EntityCommandBuffer {
+    private world: World;
+    private commands: EntityCommand[] = [];
+
+    constructor(world: World) {
+        this.world = world;
+    }
+
+    /**
+     * Queue a new entity. Its ID is reserved now, so later commands in the
+     * same buffer can refer to it.
+     */
+    public createEntity(...components: Component[]): EntityID {
+        const id = this.world.reserveEntityId();
+        this.commands.push({ type: "create", id, components });
+        return id;
+    }
+
+    public destroyEntity(id: EntityID): void {
+        this.commands.push({ type: "destroy", id });
+    }
+
+    public addComponent(id: EntityID, component: Component): void {
+        this.commands.push({ type: "addComponent", id, component });
+    }
+
+    public removeComponent(id: EntityID, componentClass: ComponentClass): void {
+        this.commands.push({ type: "removeComponent", id, componentClass });
+    }
+
+    public get size(): number {
+        return this.commands.length;
+    }
+
+    /**
+     * Apply every queued command in order. Commands queued by listeners during
+     * the flush (e.g. from events) run in the same flush.
+     */
+    public flush(): void {
+        for (let i = 0; i < this.commands.length; i++) {
+            this.apply(this.commands[i]);
+        }
+        this.commands = [];
+    }
+
+    /**
+     * Drop queued commands without applying them (after loading a save).
+     */
+    public clear(): void {
+        this.commands = [];
+    }
+
+    private apply(command: EntityCommand): void {
+        if (command.type === "create") {
+            const entity = this.world.createEntityWithId(command.id);
+            for (const component of command.components) {
+                entity.addComponent(component);
+            }
+            return;
+        }
+
+        const entity = this.world.getEntity(command.id);
+        if (!entity) return;
+
+        switch (command.type) {
+            case "destroy":
+                this.world.removeEntity(command.id);
+                break;
+            case "addComponent":
+                entity.addComponent(command.component);
+                break;
+            case "removeComponent":
+                entity.removeComponent(command.componentClass);
+                break;
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import * as BABYLON from "@babylonjs/core";
+import { Component, Entity, EntityID, World } from "./ECS";
+import { ComponentSchema, componentTypeById, componentTypeOf } from "./ComponentRegistry";
+import { PlantState } from "../components/PlantState";
+import { BuildingState } from "../components/BuildingState";
+// Persisted components register themselves on import, so make sure every
+// component a save can contain is loaded before anything is restored
+import "../components/TransformComponent";
+import "../components/PlantGenome";
+import "../components/Needs";
+import "../components/DeadPlantState";
+import "../components/PlayerState";
+
+/**
+ * Plain-data copy of an entity and its persisted components.
+ * Used by save files and by the undo history.
+ */
+export interface EntitySnapshot {
+    id: EntityID;
+    components: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Copy an entity's persistent components, keyed by their registry type ID.
+ * Only schema fields are written; BABYLON.Color3 values are stored as
+ * { "$color3": [r, g, b] }.
+ */
+export function snapshotEntity(entity: Entity): EntitySnapshot {
+    const components: Record<string, Record<string, unknown>> = {};
+    for (const component of entity.getAllComponents()) {
+        const type = componentTypeOf(component);
+        if (type.persistent) {
+            components[type.id] = serializeFields(component, type.schema);
+        }
+    }
+    return { id: entity.id, components };
+}
+
+/**
+ * Recreate an entity with its original ID. Unknown component IDs are skipped
+ * with a warning, and fields missing from the snapshot keep their defaults.
+ * Derived state (spatial hash, meshes) is the caller's job.
+ */
+export function restoreEntity(world: World, snapshot: EntitySnapshot): Entity {
+    const entity = world.createEntityWithId(snapshot.id);
+    for (const [id, fields] of Object.entries(snapshot.components)) {
+        const type = componentTypeById(id);
+        if (!type) {
+            console.warn(`[EntitySnapshot] Skipping unknown component "${id}" on entity ${snapshot.id}`);
+            continue;
+        }
+        const component = new type.ctor();
+        applyFields(component, type.schema, fields);
+        entity.addComponent(component);
+    }
+    return entity;
+}
+
+/**
+ * Living plants and buildings occupy space in the SpatialHashGrid; dead plants don't.
+ */
+export function occupiesSpace(entity: Entity): boolean {
+    return entity.hasComponent(PlantState) || entity.hasComponent(BuildingState);
+}
+
+function serializeFields(component: Component, schema: ComponentSchema): Record<string, unknown> {
+    const source = component as unknown as Record<string, unknown>;
+    const fields: Record<string, unknown> = {};
+    for (const [name, fieldType] of Object.entries(schema)) {
+        const value = source[name];
+        if (fieldType === "color3" && value instanceof BABYLON.Color3) {
+            fields[name] = { $color3: [value.r, value.g, value.b] };
+        } else {
+            fields[name] = value;
+        }
+    }
+    return fields;
+}
+
+function applyFields(component: Component, schema: ComponentSchema, fields: Record<string, unknown>): void {
+    const target = component as unknown as Record<string, unknown>;
+    for (const [name, fieldType] of Object.entries(schema)) {
+        if (!(name in fields)) continue;
+        const value = fields[name];
+        const color = fieldType === "color3" ? (value as { $color3?: number[] } | null)?.$color3 : undefined;
+        target[name] = color ? new BABYLON.Color3(color[0], color[1], color[2]) : value;
+    }
+}
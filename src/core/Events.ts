@@ -0,0 +1,63 @@
+import type { Entity, EntityID } from "./ECS";
+import type { PlantStage } from "../components/PlantState";
+import type { BuildingType } from "../ui/ToolManager";
+import type { WeatherType } from "./Weather";
+
+/** What killed a plant: running dry, or frost, heat or hail damage to its health. */
+export type PlantDeathCause = "drought" | "frost" | "heat" | "hail";
+
+/**
+ * Built-in world events and their payloads.
+ * Add new events here so every emitter and listener stays type-checked.
+ */
+export interface GameEvents {
+    entityCreated: { entity: Entity };
+    /** Emitted before the entity's components are removed, so listeners can still read them. */
+    entityDestroyed: { entity: Entity };
+    /** componentId is the stable ID from ComponentRegistry. */
+    componentAdded: { entity: Entity; componentId: string };
+    componentRemoved: { entity: Entity; componentId: string };
+    plantDied: { entityId: EntityID; stage: PlantStage; x: number; z: number; cause: PlantDeathCause };
+    plantHarvested: { entityId: EntityID; stage: PlantStage; seeds: number };
+    plantStageChanged: { entityId: EntityID; from: PlantStage; to: PlantStage };
+    buildingPlaced: { entityId: EntityID; building: BuildingType; x: number; z: number };
+    /** raining/rainIntensity cover any precipitation (rain, snow or hail). */
+    weatherChanged: { weather: WeatherType; raining: boolean; rainIntensity: number };
+}
+
+export type GameEventName = keyof GameEvents;
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed publish/subscribe bus. Listeners run synchronously in
+ * subscription order, inside whatever system emitted the event.
+ */
+export class EventBus<Events extends object> {
+    private listeners: { [K in keyof Events]?: Listener<Events[K]>[] } = {};
+
+    /**
+     * Subscribe to an event. Returns a function that unsubscribes.
+     */
+    public on<K extends keyof Events>(name: K, listener: Listener<Events[K]>): () => void {
+        const list = this.listeners[name] ?? (this.listeners[name] = []);
+        list.push(listener);
+        return () => this.off(name, listener);
+    }
+
+    public off<K extends keyof Events>(name: K, listener: Listener<Events[K]>): void {
+        const list = this.listeners[name];
+        if (!list) return;
+        const index = list.indexOf(listener);
+        if (index !== -1) list.splice(index, 1);
+    }
+
+    public emit<K extends keyof Events>(name: K, payload: Events[K]): void {
+        const list = this.listeners[name];
+        if (!list || list.length === 0) return;
+        // Copy so listeners can unsubscribe while handling the event
+        for (const listener of [...list]) {
+            listener(payload);
+        }
+    }
+}
@@ -0,0 +1,120 @@
+import type { RandomStream } from "./Random";
+import type { SeasonConditions } from "./Calendar";
+import { WeatherParameters, WeatherSegment, WeatherType, isWet, pickWeighted, transitionWeights } from "./Weather";
+
+/**
+ * Forecast for one game-day.
+ */
+export interface DailyForecast {
+    day: number;                 // 0-based game-day
+    leadDays: number;            // 0 = the day the forecast was issued
+    weather: WeatherType;        // Main weather expected
+    precipitationChance: number; // 0-1, in steps of 10%
+    high: number;                // °C, rounded
+    low: number;                 // °C, rounded
+    confidence: number;          // 0-1, falls with lead time
+}
+
+/**
+ * A multi-day forecast, issued once at the start of each game-day.
+ */
+export interface Forecast {
+    issuedDay: number;
+    days: DailyForecast[];
+}
+
+export const FORECAST_DAYS = 5;
+
+// Uncertainty (0-1) is BASE + PER_DAY * leadDays, capped at MAX
+const BASE_UNCERTAINTY = 0.1;
+const UNCERTAINTY_PER_DAY = 0.2;
+const MAX_UNCERTAINTY = 0.9;
+const WRONG_WEATHER_SHARE = 0.5;      // Chance of calling the wrong weather, as a share of the uncertainty
+const TEMPERATURE_ERROR = 5;          // °C of error at full uncertainty
+const MIN_WET_HOURS = 2;              // Wet hours in a day before the forecast leads with them
+// Share of days with MIN_WET_HOURS of wet weather per unit of season rain chance (measured over headless years)
+const WET_DAYS_PER_RAIN_CHANCE = 2.4;
+
+/**
+ * What buildForecast needs to know about the coming days. Hours are counted
+ * from the moment of issue, like the projected weather segments.
+ */
+export interface ForecastInput {
+    issuedDay: number;
+    hoursLeftToday: number;
+    segments: WeatherSegment[];
+    conditionsAt: (hoursAhead: number) => SeasonConditions;
+    temperatureAt: (hoursAhead: number, weather: WeatherParameters) => number;
+}
+
+/**
+ * Turn the true weather to come into a forecast that gets vaguer with lead
+ * time. Errors are drawn from `random` (the "forecast" stream), so the same
+ * seed issues the same forecast, and it is sometimes wrong:
+ *
+ *   - the main weather may be swapped for a likely neighbour of the true one,
+ *   - the precipitation chance leans towards how often the season has wet days,
+ *   - highs and lows drift by up to TEMPERATURE_ERROR degrees.
+ */
+export function buildForecast(input: ForecastInput, random: RandomStream): Forecast {
+    const days: DailyForecast[] = [];
+    for (let lead = 0; lead < FORECAST_DAYS; lead++) {
+        const start = lead === 0 ? 0 : input.hoursLeftToday + (lead - 1) * 24;
+        const end = input.hoursLeftToday + lead * 24;
+        const uncertainty = Math.min(MAX_UNCERTAINTY, BASE_UNCERTAINTY + UNCERTAINTY_PER_DAY * lead);
+        const conditions = input.conditionsAt((start + end) / 2);
+
+        const truth = summarizeDay(input, start, end);
+        let weather = truth.weather;
+        if (random.chance(uncertainty * WRONG_WEATHER_SHARE)) {
+            weather = pickWeighted(transitionWeights(truth.weather, conditions), random) ?? truth.weather;
+        }
+
+        const expectedWet = isWet(weather) ? 1 : 0;
+        const usualWet = Math.min(1, conditions.rainChance * WET_DAYS_PER_RAIN_CHANCE);
+        const precipitationChance = (1 - uncertainty) * expectedWet + uncertainty * usualWet;
+
+        const high = truth.high + random.range(-1, 1) * uncertainty * TEMPERATURE_ERROR;
+        const low = truth.low + random.range(-1, 1) * uncertainty * TEMPERATURE_ERROR;
+
+        days.push({
+            day: input.issuedDay + lead,
+            leadDays: lead,
+            weather,
+            precipitationChance: Math.round(precipitationChance * 10) / 10,
+            high: Math.round(Math.max(high, low)),
+            low: Math.round(Math.min(high, low)),
+            confidence: 1 - uncertainty,
+        });
+    }
+    return { issuedDay: input.issuedDay, days };
+}
+
+/**
+ * The real main weather, high and low between two hours ahead. Wet weather
+ * leads once it lasts MIN_WET_HOURS; otherwise the longest state does.
+ */
+function summarizeDay(input: ForecastInput, start: number, end: number): { weather: WeatherType; high: number; low: number } {
+    const hours = new Map<WeatherType, number>();
+    let high = -Infinity;
+    let low = Infinity;
+
+    for (const segment of input.segments) {
+        const overlap = Math.min(end, segment.endHour) - Math.max(start, segment.startHour);
+        if (overlap <= 0) continue;
+        hours.set(segment.weather, (hours.get(segment.weather) ?? 0) + overlap);
+    }
+
+    // Hourly samples are enough to find the daily extremes
+    for (let hour = start; hour < end; hour++) {
+        const segment = input.segments.find(s => hour >= s.startHour && hour < s.endHour)
+            ?? input.segments[input.segments.length - 1];
+        const temperature = input.temperatureAt(hour, segment.parameters);
+        high = Math.max(high, temperature);
+        low = Math.min(low, temperature);
+    }
+
+    const ranked = [...hours.entries()].sort((a, b) => b[1] - a[1]);
+    const wet = ranked.find(([type, time]) => isWet(type) && time >= MIN_WET_HOURS);
+    return { weather: (wet ?? ranked[0])[0], high, low };
+}
@@ -9,12 +9,18 @@ export class GameLoop {
     private running: boolean = false;
     private timeSystem: TimeSystem | null = null;
 
-    // Time control
+    // Time control (player speed; sleep acceleration from TimeSystem multiplies on top)
+    public static readonly SPEED_PRESETS: readonly number[] = [1, 2, 5, 10];
     public timeScale: number = 1.0;
+    private paused: boolean = false;
+    private pendingSteps: number = 0;
 
     // Simulation settings
-    private readonly TICK_RATE = 10; // Ticks per second
-    private readonly TICK_DT = 1000 / this.TICK_RATE;
+    public static readonly TICK_RATE = 10; // Ticks per second
+    // Fixed ticks per frame before the loop gives up on catching up. Simulated time
+    // beyond the cap is dropped, so high speeds slow down instead of freezing the tab.
+    public static readonly MAX_TICKS_PER_FRAME = 20;
+    private readonly TICK_DT = 1000 / GameLoop.TICK_RATE;
     private accumulator: number = 0;
 
     constructor(engine: Engine, world: World) {
@@ -31,23 +37,51 @@ export class GameLoop {
         this.running = true;
 
         this.engine.getEngine().runRenderLoop(() => {
-            // Apply sleep time scale on top of user time scale
-            const sleepScale = this.timeSystem?.getSleepTimeScale() ?? 1;
-            const deltaTime = this.engine.getEngine().getDeltaTime() * this.timeScale * sleepScale;
+            const frameStart = performance.now();
+            const realDelta = this.engine.getEngine().getDeltaTime();
+
+            const deltaTime = realDelta * this.getEffectiveTimeScale();
 
             this.accumulator += deltaTime;
 
             // Fixed time step for simulation systems
-            while (this.accumulator >= this.TICK_DT) {
+            let ticks = 0;
+            while (this.accumulator >= this.TICK_DT && ticks < GameLoop.MAX_TICKS_PER_FRAME) {
                 this.world.updateFixed(this.TICK_DT / 1000); // Pass DT in seconds
                 this.accumulator -= this.TICK_DT;
+                ticks++;
+            }
+
+            // Single steps requested while paused
+            while (this.pendingSteps > 0 && ticks < GameLoop.MAX_TICKS_PER_FRAME) {
+                this.world.updateFixed(this.TICK_DT / 1000);
+                this.pendingSteps--;
+                ticks++;
+            }
+
+            // Hit the cap: drop whole ticks that are still owed, keep the fraction
+            const backlogMs = this.accumulator;
+            if (this.accumulator >= this.TICK_DT) {
+                this.accumulator %= this.TICK_DT;
             }
 
             // Render systems run every frame
             this.world.updateRender(deltaTime / 1000);
 
             // Render the scene
+            const sceneStart = performance.now();
             this.engine.getScene().render();
+            const frameEnd = performance.now();
+
+            if (this.world.profiler.enabled) {
+                this.world.profiler.endFrame({
+                    deltaMs: realDelta,
+                    frameMs: frameEnd - frameStart,
+                    sceneMs: frameEnd - sceneStart,
+                    ticks,
+                    backlogMs,
+                });
+            }
         });
 
         window.addEventListener("resize", () => {
@@ -55,6 +89,53 @@ export class GameLoop {
         });
     }
 
+    /**
+     * Player speed multiplier times sleep acceleration, or 0 while paused.
+     */
+    public getEffectiveTimeScale(): number {
+        if (this.paused) return 0;
+        const sleepScale = this.timeSystem?.getSleepTimeScale() ?? 1;
+        return this.timeScale * sleepScale;
+    }
+
+    /**
+     * Set the player speed (usually one of SPEED_PRESETS) and unpause.
+     */
+    public setSpeed(scale: number): void {
+        this.timeScale = Math.max(scale, 0);
+        this.paused = false;
+    }
+
+    /**
+     * Move to the next slower or faster preset (direction -1 or 1).
+     */
+    public cycleSpeed(direction: number): void {
+        const presets = GameLoop.SPEED_PRESETS;
+        const current = presets.indexOf(this.timeScale);
+        const index = current === -1 ? 0 : Math.min(Math.max(current + direction, 0), presets.length - 1);
+        this.setSpeed(presets[index]);
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public setPaused(paused: boolean): void {
+        this.paused = paused;
+    }
+
+    public togglePause(): void {
+        this.paused = !this.paused;
+    }
+
+    /**
+     * Pause and run exactly one fixed tick on the next frame (debugging).
+     */
+    public stepTick(): void {
+        this.paused = true;
+        this.pendingSteps++;
+    }
+
     public stop(): void {
         this.running = false;
         this.engine.getEngine().stopRenderLoop();
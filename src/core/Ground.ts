@@ -0,0 +1,33 @@
+/**
+ * What covers a soil cell. Plain soil follows the usual simulation; the other
+ * types override parts of it (see GROUND_DEFINITIONS).
+ *
+ *   pond      - open water: always saturated, soaks up surface water
+ *   stonePath - paving: always dry, water runs off it
+ *   gravel    - loose stones: drains fast, dries slowly
+ *   bareRock  - outcrop: always dry, water runs off it
+ *   mulch     - a layer over soil: plantable, holds moisture in
+ */
+export type GroundType = "soil" | "pond" | "stonePath" | "gravel" | "bareRock" | "mulch";
+
+// Saves store each cell's index into this list, so only append new types
+export const GROUND_TYPES: GroundType[] = ["soil", "pond", "stonePath", "gravel", "bareRock", "mulch"];
+
+export interface GroundDefinition {
+    label: string;
+    icon: string;
+    plantable: boolean;
+    fixedMoisture: number | null; // Moisture held at this level every tick (null = simulated)
+    diffuses: boolean;            // Whether water and nutrients move to and from neighbours
+    infiltration: number;         // Multiplier on how fast surface water soaks in
+    evaporation: number;          // Multiplier on soil evaporation
+}
+
+export const GROUND_DEFINITIONS: Record<GroundType, GroundDefinition> = {
+    soil: { label: "Soil", icon: "🟫", plantable: true, fixedMoisture: null, diffuses: true, infiltration: 1, evaporation: 1 },
+    pond: { label: "Pond", icon: "🌊", plantable: false, fixedMoisture: 100, diffuses: true, infiltration: 10, evaporation: 1 },
+    stonePath: { label: "Stone Path", icon: "🧱", plantable: false, fixedMoisture: 0, diffuses: false, infiltration: 0, evaporation: 1 },
+    gravel: { label: "Gravel", icon: "⚪", plantable: false, fixedMoisture: null, diffuses: true, infiltration: 2, evaporation: 0.5 },
+    bareRock: { label: "Bare Rock", icon: "⛰️", plantable: false, fixedMoisture: 0, diffuses: false, infiltration: 0, evaporation: 1 },
+    mulch: { label: "Mulch", icon: "🟤", plantable: true, fixedMoisture: null, diffuses: true, infiltration: 1.2, evaporation: 0.4 },
+};
@@ -0,0 +1,142 @@
+import { Entity, World } from "./ECS";
+import { Engine } from "./Engine";
+import { GameLoop } from "./GameLoop";
+import { SpatialHashGrid } from "./SpatialHashGrid";
+import { SaveData, SaveManager } from "./SaveManager";
+import { PlayerCommandInput } from "./Commands";
+import { Calendar } from "./Calendar";
+import { SunPath } from "./SunPath";
+import { SessionRecording } from "./SessionRecorder";
+import { TransformComponent } from "../components/TransformComponent";
+import { PlayerState } from "../components/PlayerState";
+import { CommandSystem } from "../systems/CommandSystem";
+import { TimeSystem } from "../systems/TimeSystem";
+import { SoilSystem } from "../systems/SoilSystem";
+import { GrowthSystem } from "../systems/GrowthSystem";
+import { BuildingSystem } from "../systems/BuildingSystem";
+import { DecaySystem } from "../systems/DecaySystem";
+import type { BuildingType } from "../ui/ToolManager";
+
+export interface HeadlessSimulationOptions {
+    /** World seed for a fresh garden (ignored when loading a save, which carries its own) */
+    seed?: number;
+    /** Start from a save instead of a fresh garden */
+    save?: SaveData;
+    /** Garden latitude in degrees (default DEFAULT_LATITUDE); not stored in saves */
+    latitude?: number;
+    /** Keep SoilSystem's once-per-second stats logging (off by default) */
+    debugLogging?: boolean;
+}
+
+/**
+ * HeadlessSimulation runs the fixed-step systems (Command, Time, Soil, Growth,
+ * Building, Decay) on Babylon's NullEngine, with no canvas, GPU or render
+ * systems. Time advances in the same fixed ticks as GameLoop, as fast as the
+ * CPU allows. Used for balancing runs, regression checks and Node scripts.
+ */
+export class HeadlessSimulation {
+    public readonly world: World;
+    public readonly spatialHash: SpatialHashGrid;
+    public readonly saveManager: SaveManager;
+
+    public readonly commandSystem: CommandSystem;
+    public readonly timeSystem: TimeSystem;
+    public readonly soilSystem: SoilSystem;
+    public readonly growthSystem: GrowthSystem;
+    public readonly buildingSystem: BuildingSystem;
+    public readonly decaySystem: DecaySystem;
+
+    // Fixed tick length in seconds (matches GameLoop)
+    public static readonly TICK_DT = 1 / GameLoop.TICK_RATE;
+
+    constructor(options: HeadlessSimulationOptions = {}) {
+        Engine.createHeadless();
+
+        this.world = new World(options.seed);
+        this.spatialHash = new SpatialHashGrid(2);
+
+        // The player entity is created first, as in main.ts, so saves from the game line up
+        const player = this.world.createEntity();
+        player.addComponent(new PlayerState());
+        player.addComponent(new TransformComponent(0, 0, 0));
+
+        this.timeSystem = new TimeSystem(this.world, new Calendar(), new SunPath(options.latitude));
+        this.soilSystem = new SoilSystem(this.world);
+        this.commandSystem = new CommandSystem(this.world, this.spatialHash, this.soilSystem, player.id);
+        this.soilSystem.debugLogging = options.debugLogging ?? false;
+        this.growthSystem = new GrowthSystem(this.world, this.timeSystem, this.soilSystem, this.spatialHash);
+        this.buildingSystem = new BuildingSystem(this.world, this.soilSystem, this.timeSystem);
+        this.decaySystem = new DecaySystem(this.world, this.timeSystem, this.soilSystem);
+
+        // Same registration order as main.ts, so unconstrained ties resolve the same way
+        this.world.addSystem(
+            this.commandSystem,
+            this.timeSystem,
+            this.soilSystem,
+            this.growthSystem,
+            this.buildingSystem,
+            this.decaySystem,
+        );
+
+        this.saveManager = new SaveManager(this.world, this.spatialHash);
+
+        if (options.save) {
+            this.saveManager.deserialize(options.save);
+        }
+    }
+
+    /**
+     * Advance one fixed simulation tick.
+     */
+    public step(): void {
+        this.world.updateFixed(HeadlessSimulation.TICK_DT);
+    }
+
+    /**
+     * Advance by a number of in-game hours (rounded to whole ticks).
+     */
+    public advanceHours(hours: number): void {
+        const seconds = hours / this.timeSystem.HOURS_PER_REAL_SECOND;
+        const ticks = Math.round(seconds * GameLoop.TICK_RATE);
+        for (let i = 0; i < ticks; i++) {
+            this.step();
+        }
+    }
+
+    /**
+     * Advance by a number of in-game days.
+     */
+    public advanceDays(days: number): void {
+        this.advanceHours(days * 24);
+    }
+
+    /**
+     * Dispatch a player command; it applies on the next step().
+     */
+    public dispatch(command: PlayerCommandInput): void {
+        this.commandSystem.dispatch(command);
+    }
+
+    /**
+     * Replay a recorded session from its snapshot to its last tick.
+     */
+    public replay(recording: SessionRecording): void {
+        this.saveManager.deserialize(recording.snapshot);
+        this.commandSystem.startReplay(recording.commands, recording.endTick);
+        while (this.world.getTick() < recording.endTick) {
+            this.step();
+        }
+        this.commandSystem.stopReplay();
+    }
+
+    /**
+     * Plant a seedling at (x, z), bypassing the player's seed count.
+     */
+    public plantAt(x: number, z: number): Entity {
+        return this.commandSystem.createPlant(x, z);
+    }
+
+    public buildAt(type: BuildingType, x: number, z: number): Entity {
+        return this.commandSystem.createBuilding(type, x, z);
+    }
+}
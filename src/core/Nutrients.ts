@@ -0,0 +1,78 @@
+/**
+ * The three soil macronutrients. Each has its own soil grid in SoilSystem and
+ * its own buffer in Needs (the field names match). Soil pH decides how much of
+ * each the roots can reach.
+ *
+ *   nitrogen   - mobile, drained fastest by leafy growth
+ *   phosphorus - barely moves in soil; drives flowering and root spread
+ *   potassium  - moves slowly; drives resistance to frost, heat and hail
+ */
+export type Nutrient = "nitrogen" | "phosphorus" | "potassium";
+
+export const NUTRIENTS: Nutrient[] = ["nitrogen", "phosphorus", "potassium"];
+
+export interface NutrientDefinition {
+    label: string;
+    symbol: string;    // N, P or K
+    diffusion: number; // Multiplier on the soil diffusion rate (moisture = 1)
+    optimalPh: [number, number]; // Soil pH range where roots can take all of it up
+}
+
+export const NUTRIENT_DEFINITIONS: Record<Nutrient, NutrientDefinition> = {
+    nitrogen: { label: "Nitrogen", symbol: "N", diffusion: 1, optimalPh: [5.5, 8.0] },
+    phosphorus: { label: "Phosphorus", symbol: "P", diffusion: 0.2, optimalPh: [6.0, 7.5] },
+    potassium: { label: "Potassium", symbol: "K", diffusion: 0.5, optimalPh: [5.5, 9.0] },
+};
+
+const AVAILABILITY_LOSS_PER_PH = 0.35; // Share of a nutrient locked up per pH unit outside its range
+const MIN_AVAILABILITY = 0.2;
+
+/**
+ * Share (0.2-1) of a nutrient in the soil that roots can take up at a pH.
+ * Outside the nutrient's optimal range it binds to the soil and is locked up.
+ */
+export function getNutrientAvailability(nutrient: Nutrient, ph: number): number {
+    const [min, max] = NUTRIENT_DEFINITIONS[nutrient].optimalPh;
+    const outside = ph < min ? min - ph : ph > max ? ph - max : 0;
+    return Math.max(MIN_AVAILABILITY, 1 - outside * AVAILABILITY_LOSS_PER_PH);
+}
+
+/**
+ * Soil layers the ground overlay can show, in the order the overlay button
+ * cycles through them.
+ */
+export type SoilOverlay = Nutrient | "ph" | "density";
+
+export const SOIL_OVERLAYS: SoilOverlay[] = [...NUTRIENTS, "ph", "density"];
+
+export function getSoilOverlayLabel(overlay: SoilOverlay): string {
+    if (overlay === "ph") return "pH";
+    if (overlay === "density") return "Density";
+    return NUTRIENT_DEFINITIONS[overlay].label;
+}
+
+/**
+ * Soil amendments the compost tool can spread. Rates are per second while the
+ * mouse is held: nutrient, pH units and bulk density (g/cm³).
+ */
+export type AmendmentType = "compost" | "boneMeal" | "woodAsh" | "lime" | "sulfur";
+
+export interface AmendmentDefinition {
+    label: string;
+    icon: string;
+    rates: Record<Nutrient, number>;
+    ph?: number;
+    density?: number;
+}
+
+export const AMENDMENTS: Record<AmendmentType, AmendmentDefinition> = {
+    // All-round, nitrogen-heavy; organic matter also loosens compacted soil
+    compost: { label: "Compost", icon: "🍂", rates: { nitrogen: 30, phosphorus: 8, potassium: 12 }, density: -0.1 },
+    // Mostly phosphorus, for flowers and roots
+    boneMeal: { label: "Bone Meal", icon: "🦴", rates: { nitrogen: 6, phosphorus: 30, potassium: 0 } },
+    // Mostly potassium, for hardiness
+    woodAsh: { label: "Wood Ash", icon: "🪵", rates: { nitrogen: 0, phosphorus: 5, potassium: 30 } },
+    // Raise and lower the pH
+    lime: { label: "Lime", icon: "🪨", rates: { nitrogen: 0, phosphorus: 0, potassium: 0 }, ph: 0.6 },
+    sulfur: { label: "Sulfur", icon: "🟡", rates: { nitrogen: 0, phosphorus: 0, potassium: 0 }, ph: -0.6 },
+};
@@ -0,0 +1,149 @@
+import { SystemType } from "./ECS";
+
+/**
+ * Current profiler report format version. Bump when ProfilerReport changes shape.
+ */
+export const PROFILER_REPORT_VERSION = 1;
+
+/**
+ * Timings for one rendered frame. All times are wall-clock milliseconds except
+ * backlogMs, which is simulated time still waiting in the GameLoop accumulator.
+ */
+export interface FrameSample {
+    deltaMs: number;    // Real time since the previous frame
+    frameMs: number;    // Time spent in the loop body (fixed + render systems + scene)
+    fixedMs: number;    // All FIXED system updates this frame
+    renderMs: number;   // All RENDER system updates this frame
+    sceneMs: number;    // Babylon scene.render()
+    ticks: number;      // Fixed ticks run this frame
+    backlogMs: number;  // Simulated time still owed after the ticks (before the tick cap drops it)
+    systems: Record<string, number>; // Per-system time this frame (summed over ticks)
+}
+
+export interface SystemTiming {
+    name: string;
+    type: SystemType;
+    avgMs: number;
+    maxMs: number;
+}
+
+export interface ProfilerSummary {
+    frames: number;
+    avgFrameMs: number;
+    p95FrameMs: number;
+    maxFrameMs: number;
+    avgTicksPerFrame: number;
+    maxTicksPerFrame: number;
+    maxBacklogMs: number;
+    systems: SystemTiming[]; // Slowest first
+}
+
+/**
+ * JSON dump for performance bug reports.
+ */
+export interface ProfilerReport {
+    version: number;
+    capturedAt: string;
+    userAgent: string;
+    summary: ProfilerSummary;
+    history: FrameSample[];
+}
+
+/**
+ * Profiler keeps a rolling window of per-frame and per-system timings.
+ *
+ * World reports every system update; GameLoop closes each frame with its tick
+ * count and accumulator backlog. Without a GameLoop (headless) frames are never
+ * closed, so only the running totals of the current "frame" grow.
+ */
+export class Profiler {
+    public static readonly HISTORY_FRAMES = 300; // ~5 seconds at 60 fps
+
+    public enabled: boolean = true;
+
+    private history: FrameSample[] = [];
+    private systemTypes: Map<string, SystemType> = new Map();
+    private current: Record<string, number> = {};
+    private fixedMs: number = 0;
+    private renderMs: number = 0;
+
+    public recordSystem(name: string, type: SystemType, ms: number): void {
+        this.systemTypes.set(name, type);
+        this.current[name] = (this.current[name] ?? 0) + ms;
+        if (type === SystemType.FIXED) {
+            this.fixedMs += ms;
+        } else {
+            this.renderMs += ms;
+        }
+    }
+
+    public endFrame(frame: { deltaMs: number; frameMs: number; sceneMs: number; ticks: number; backlogMs: number }): void {
+        this.history.push({
+            ...frame,
+            fixedMs: this.fixedMs,
+            renderMs: this.renderMs,
+            systems: this.current,
+        });
+        if (this.history.length > Profiler.HISTORY_FRAMES) {
+            this.history.shift();
+        }
+        this.current = {};
+        this.fixedMs = 0;
+        this.renderMs = 0;
+    }
+
+    public getHistory(): readonly FrameSample[] {
+        return this.history;
+    }
+
+    public clear(): void {
+        this.history = [];
+        this.current = {};
+        this.fixedMs = 0;
+        this.renderMs = 0;
+    }
+
+    public getSummary(): ProfilerSummary {
+        const frames = this.history.length;
+        const frameTimes = this.history.map(f => f.frameMs).sort((a, b) => a - b);
+
+        const systems: SystemTiming[] = [];
+        for (const [name, type] of this.systemTypes) {
+            let total = 0;
+            let max = 0;
+            for (const frame of this.history) {
+                const ms = frame.systems[name] ?? 0;
+                total += ms;
+                max = Math.max(max, ms);
+            }
+            systems.push({ name, type, avgMs: frames > 0 ? total / frames : 0, maxMs: max });
+        }
+        systems.sort((a, b) => b.avgMs - a.avgMs);
+
+        return {
+            frames,
+            avgFrameMs: average(this.history.map(f => f.frameMs)),
+            p95FrameMs: frames > 0 ? frameTimes[Math.min(frames - 1, Math.floor(frames * 0.95))] : 0,
+            maxFrameMs: frames > 0 ? frameTimes[frames - 1] : 0,
+            avgTicksPerFrame: average(this.history.map(f => f.ticks)),
+            maxTicksPerFrame: Math.max(0, ...this.history.map(f => f.ticks)),
+            maxBacklogMs: Math.max(0, ...this.history.map(f => f.backlogMs)),
+            systems,
+        };
+    }
+
+    public getReport(): ProfilerReport {
+        return {
+            version: PROFILER_REPORT_VERSION,
+            capturedAt: new Date().toISOString(),
+            userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "headless",
+            summary: this.getSummary(),
+            history: [...this.history],
+        };
+    }
+}
+
+function average(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
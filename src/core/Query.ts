@@ -0,0 +1,99 @@
+import type { Entity, EntityID, World } from "./ECS";
+import { ComponentClass, componentType } from "./ComponentRegistry";
+
+/**
+ * Maps a tuple of component classes to a tuple of their instances.
+ */
+export type ComponentInstances<T extends ComponentClass[]> = {
+    [K in keyof T]: T[K] extends ComponentClass<infer C> ? C : never;
+};
+
+/**
+ * One query result: the entity followed by its components, in query order.
+ */
+export type QueryRow<T extends ComponentClass[]> = [Entity, ...ComponentInstances<T>];
+
+/**
+ * A cached, live view of every entity that has all `with` components and
+ * none of the `without` components. World keeps it up to date as components
+ * are added and removed, so iterating costs nothing beyond the matches.
+ *
+ *   for (const [entity, state, needs] of world.query(PlantState, Needs)) { ... }
+ *
+ * Rows are rebuilt when a matching entity's components change; hold on to the
+ * query, not to rows. Entities removed during iteration are skipped, like a Set.
+ */
+export class Query<T extends ComponentClass[]> {
+    public readonly key: string;
+    private world: World;
+    private withClasses: T;
+    private withoutClasses: ComponentClass[];
+    private rows: Map<EntityID, QueryRow<T>> = new Map();
+
+    constructor(world: World, withClasses: T, withoutClasses: ComponentClass[]) {
+        this.world = world;
+        this.withClasses = withClasses;
+        this.withoutClasses = withoutClasses;
+        this.key = Query.keyFor(withClasses, withoutClasses);
+    }
+
+    public static keyFor(withClasses: ComponentClass[], withoutClasses: ComponentClass[]): string {
+        const ids = withClasses.map(c => componentType(c).id).join(",");
+        const excluded = withoutClasses.map(c => componentType(c).id).sort().join(",");
+        return excluded ? `${ids}|!${excluded}` : ids;
+    }
+
+    /**
+     * Narrow to entities that have none of the given components (also cached).
+     */
+    public without(...excluded: ComponentClass[]): Query<T> {
+        return this.world.getQuery(this.withClasses, [...this.withoutClasses, ...excluded]);
+    }
+
+    /**
+     * Component type IDs this query depends on (World uses this to route updates).
+     */
+    public getComponentTypeIds(): string[] {
+        return [...this.withClasses, ...this.withoutClasses].map(c => componentType(c).id);
+    }
+
+    public get size(): number {
+        return this.rows.size;
+    }
+
+    public has(id: EntityID): boolean {
+        return this.rows.has(id);
+    }
+
+    /**
+     * The row for an entity, or undefined if it doesn't match.
+     */
+    public get(id: EntityID): QueryRow<T> | undefined {
+        return this.rows.get(id);
+    }
+
+    public [Symbol.iterator](): IterableIterator<QueryRow<T>> {
+        return this.rows.values();
+    }
+
+    /**
+     * Re-check one entity after its components changed.
+     */
+    public refresh(entity: Entity): void {
+        if (this.matches(entity)) {
+            const components = this.withClasses.map(c => entity.getComponent(c)) as unknown as ComponentInstances<T>;
+            this.rows.set(entity.id, [entity, ...components] as QueryRow<T>);
+        } else {
+            this.rows.delete(entity.id);
+        }
+    }
+
+    public remove(id: EntityID): void {
+        this.rows.delete(id);
+    }
+
+    private matches(entity: Entity): boolean {
+        return this.withClasses.every(c => entity.hasComponent(c))
+            && !this.withoutClasses.some(c => entity.hasComponent(c));
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * Named random streams. Each stream is seeded independently from the world
+ * seed, so drawing more numbers from one (e.g. a background preset with more
+ * trees) never shifts the sequence of another (e.g. weather).
+ *
+ *   weather    - weather changes and intensities
+ *   spawning   - entities the simulation creates on its own (wildlife, self-seeding)
+ *   decoration - purely visual placement (background props, stars)
+ *   forecast   - forecast errors (never the weather itself)
+ *   soil       - the starting soil map (texture, nutrients, pH)
+ */
+export type RandomStreamName = "weather" | "spawning" | "decoration" | "forecast" | "soil";
+
+const STREAM_NAMES: RandomStreamName[] = ["weather", "spawning", "decoration", "forecast", "soil"];
+
+/**
+ * Serializable RNG state: the world seed plus each stream's current state.
+ */
+export interface RandomSnapshot {
+    seed: number;
+    streams: Partial<Record<RandomStreamName, number>>;
+}
+
+/**
+ * A single seeded stream (mulberry32). Small, fast and fully described by one
+ * 32-bit integer, which makes it trivial to save and restore.
+ */
+export class RandomStream {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Next float in [0, 1), like Math.random().
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Float in [min, max).
+     */
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * True with the given probability (0-1).
+     */
+    public chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+/**
+ * RandomService owns the world seed and its named streams. Every system draws
+ * from `world.random.stream(name)` instead of Math.random(), so the same seed
+ * plus the same inputs reproduces the same simulation.
+ */
+export class RandomService {
+    private seed: number;
+    private streams: Map<RandomStreamName, RandomStream> = new Map();
+
+    constructor(seed: number = RandomService.randomSeed()) {
+        this.seed = seed >>> 0;
+        this.resetStreams();
+    }
+
+    /**
+     * A fresh seed for a new garden (the only place Math.random() is allowed).
+     */
+    public static randomSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    public stream(name: RandomStreamName): RandomStream {
+        return this.streams.get(name)!;
+    }
+
+    /**
+     * Switch to a new seed and restart every stream from it.
+     */
+    public reseed(seed: number): void {
+        this.seed = seed >>> 0;
+        this.resetStreams();
+    }
+
+    public getSnapshot(): RandomSnapshot {
+        const streams: Partial<Record<RandomStreamName, number>> = {};
+        for (const [name, stream] of this.streams) {
+            streams[name] = stream.getState();
+        }
+        return { seed: this.seed, streams };
+    }
+
+    /**
+     * Restore the seed and stream states. Streams missing from the snapshot
+     * start from the seed.
+     */
+    public loadSnapshot(snapshot: RandomSnapshot): void {
+        this.reseed(snapshot.seed);
+        for (const [name, state] of Object.entries(snapshot.streams)) {
+            this.streams.get(name as RandomStreamName)?.setState(state);
+        }
+    }
+
+    /**
+     * Streams are reset in place so systems may keep a reference to them.
+     */
+    private resetStreams(): void {
+        for (const name of STREAM_NAMES) {
+            const state = RandomService.deriveSeed(this.seed, name);
+            const stream = this.streams.get(name);
+            if (stream) {
+                stream.setState(state);
+            } else {
+                this.streams.set(name, new RandomStream(state));
+            }
+        }
+    }
+
+    /**
+     * Mix the world seed with the stream name (FNV-1a) so streams are independent.
+     */
+    private static deriveSeed(seed: number, name: string): number {
+        let hash = 0x811C9DC5 ^ seed;
+        for (let i = 0; i < name.length; i++) {
+            hash ^= name.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
@@ -0,0 +1,282 @@
+import { World } from "./ECS";
+import { SpatialHashGrid } from "./SpatialHashGrid";
+import { RandomService, RandomSnapshot } from "./Random";
+import { legacyWeatherSnapshot } from "./Weather";
+import { EntitySnapshot, occupiesSpace, restoreEntity, snapshotEntity } from "./EntitySnapshot";
+import type { SaveSlot } from "./SaveStorage";
+import { TransformComponent } from "../components/TransformComponent";
+import { TimeSystem, TimeSnapshot } from "../systems/TimeSystem";
+import { SoilSystem, SoilSnapshot } from "../systems/SoilSystem";
+import { GrowthSystem } from "../systems/GrowthSystem";
+import { BuildingSystem } from "../systems/BuildingSystem";
+import { RenderSystem } from "../systems/RenderSystem";
+import { CommandSystem } from "../systems/CommandSystem";
+import { SleepSystem } from "../systems/SleepSystem";
+
+/**
+ * Current save format version. Bump this whenever the shape of SaveData or of
+ * a serialized component changes, and add a migration from the old version.
+ */
+export const SAVE_FORMAT_VERSION = 11;
+
+/**
+ * Save file layout (JSON):
+ *
+ * {
+ *   version: number,        // SAVE_FORMAT_VERSION at the time of saving
+ *   savedAt: string,        // ISO-8601 wall-clock timestamp
+ *   tick: number,           // Fixed ticks simulated so far (v3+), used by command replays
+ *   nextEntityId: number,   // World ID counter, so new entities never reuse saved IDs
+ *   random: RandomSnapshot, // World seed and named stream states (v2+)
+ *   time: TimeSnapshot,     // Clock, sleep, weather state machine (v5+) and forecast (v6+)
+ *   soil: SoilSnapshot,     // Moisture / nitrogen / phosphorus and potassium (v7+) / pH and density (v8+) / surface water (v9+) / ground type (v10+) / clay and sand fractions (v11+) / temperature (v4+) grids (row-major, GRID_SIZE^2)
+ *   entities: [{ id, components: { [componentKey]: { ...fields } } }]
+ * }
+ *
+ * Component fields are copied verbatim except BABYLON.Color3 values, which are
+ * stored as { "$color3": [r, g, b] }.
+ */
+export interface SaveData {
+    version: number;
+    savedAt: string;
+    tick: number;
+    nextEntityId: number;
+    random: RandomSnapshot;
+    time: TimeSnapshot;
+    soil: SoilSnapshot;
+    entities: EntitySnapshot[];
+}
+
+export type { EntitySnapshot };
+
+// Older save shapes, each described by what the next version added
+type SaveDataV10 = Omit<SaveData, "version" | "soil"> & { version: 10; soil: Omit<SoilSnapshot, "clay" | "sand"> };
+type SaveDataV9 = Omit<SaveDataV10, "version" | "soil"> & { version: 9; soil: Omit<SaveDataV10["soil"], "ground"> };
+type SaveDataV8 = Omit<SaveDataV9, "version" | "soil"> & { version: 8; soil: Omit<SaveDataV9["soil"], "surfaceWater"> };
+type SaveDataV7 = Omit<SaveDataV8, "version" | "soil"> & { version: 7; soil: Omit<SaveDataV8["soil"], "ph" | "density"> };
+type SaveDataV6 = Omit<SaveDataV7, "version" | "soil"> & { version: 6; soil: Omit<SaveDataV7["soil"], "phosphorus" | "potassium"> };
+type SaveDataV5 = Omit<SaveDataV6, "version" | "time"> & { version: 5; time: Omit<TimeSnapshot, "forecast"> };
+type SaveDataV4 = Omit<SaveDataV5, "version" | "time"> & {
+    version: 4;
+    time: Omit<SaveDataV5["time"], "weather"> & {
+        rainIntensity: number;
+        targetRainIntensity: number;
+        weatherTimer: number;
+        nextWeatherChange: number;
+    };
+};
+type SaveDataV3 = Omit<SaveDataV4, "version" | "soil"> & { version: 3; soil: Omit<SaveDataV4["soil"], "temperature"> };
+type SaveDataV2 = Omit<SaveDataV3, "version" | "tick"> & { version: 2 };
+type SaveDataV1 = Omit<SaveDataV2, "version" | "random"> & { version: 1 };
+
+type AnySaveData = SaveDataV1 | SaveDataV2 | SaveDataV3 | SaveDataV4 | SaveDataV5
+    | SaveDataV6 | SaveDataV7 | SaveDataV8 | SaveDataV9 | SaveDataV10 | SaveData;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each one must return data in the shape of (version + 1).
+ */
+const MIGRATIONS: {
+    1: (data: SaveDataV1) => SaveDataV2;
+    2: (data: SaveDataV2) => SaveDataV3;
+    3: (data: SaveDataV3) => SaveDataV4;
+    4: (data: SaveDataV4) => SaveDataV5;
+    5: (data: SaveDataV5) => SaveDataV6;
+    6: (data: SaveDataV6) => SaveDataV7;
+    7: (data: SaveDataV7) => SaveDataV8;
+    8: (data: SaveDataV8) => SaveDataV9;
+    9: (data: SaveDataV9) => SaveDataV10;
+    10: (data: SaveDataV10) => SaveData;
+} = {
+    // v1 -> v2: RNG state added. Old saves had no seed, so start a fresh one.
+    1: (data) => ({
+        ...data,
+        version: 2,
+        random: { seed: RandomService.randomSeed(), streams: {} },
+    }),
+    // v2 -> v3: tick counter added.
+    2: (data) => ({ ...data, version: 3, tick: 0 }),
+    // v3 -> v4: soil temperature added. It settles towards the air within a few game-hours.
+    3: (data) => ({
+        ...data,
+        version: 4,
+        soil: { ...data.soil, temperature: data.soil.moisture.map(() => 15) },
+    }),
+    // v4 -> v5: rain on/off replaced by the weather state machine. The old
+    // countdown was in real seconds at 0.2 game-hours per second.
+    4: (data) => {
+        const { rainIntensity, targetRainIntensity, weatherTimer, nextWeatherChange, ...time } = data.time;
+        return {
+            ...data,
+            version: 5,
+            time: {
+                ...time,
+                weather: legacyWeatherSnapshot(rainIntensity, targetRainIntensity, (nextWeatherChange - weatherTimer) * 0.2),
+            },
+        };
+    },
+    // v5 -> v6: forecast added. A new one is issued on the first tick.
+    5: (data) => ({ ...data, version: 6, time: { ...data.time, forecast: null } }),
+    // v6 -> v7: phosphorus and potassium grids added, at a middling level everywhere.
+    6: (data) => ({
+        ...data,
+        version: 7,
+        soil: {
+            ...data.soil,
+            phosphorus: data.soil.nitrogen.map(() => 12),
+            potassium: data.soil.nitrogen.map(() => 18),
+        },
+    }),
+    // v7 -> v8: pH and bulk density grids added, neutral and loose everywhere.
+    7: (data) => ({
+        ...data,
+        version: 8,
+        soil: {
+            ...data.soil,
+            ph: data.soil.nitrogen.map(() => 6.5),
+            density: data.soil.nitrogen.map(() => 1.3),
+        },
+    }),
+    // v8 -> v9: surface water added. Old saves had none standing.
+    8: (data) => ({ ...data, version: 9, soil: { ...data.soil, surfaceWater: data.soil.nitrogen.map(() => 0) } }),
+    // v9 -> v10: ground types added. Every cell was plain soil (index 0).
+    9: (data) => ({ ...data, version: 10, soil: { ...data.soil, ground: data.soil.nitrogen.map(() => 0) } }),
+    // v10 -> v11: soil texture added. Old gardens become loam everywhere.
+    10: (data) => ({
+        ...data,
+        version: 11,
+        soil: {
+            ...data.soil,
+            clay: data.soil.nitrogen.map(() => 0.2),
+            sand: data.soil.nitrogen.map(() => 0.4),
+        },
+    }),
+};
+
+/**
+ * SaveManager converts the whole garden (entities, soil, clock) to and from
+ * the versioned SaveData format, and rebuilds derived state after a load.
+ */
+export class SaveManager {
+    private world: World;
+    private spatialHash: SpatialHashGrid;
+
+    constructor(world: World, spatialHash: SpatialHashGrid) {
+        this.world = world;
+        this.spatialHash = spatialHash;
+    }
+
+    public serialize(): SaveData {
+        const timeSystem = this.world.getSystem(TimeSystem);
+        const soilSystem = this.world.getSystem(SoilSystem);
+        if (!timeSystem || !soilSystem) {
+            throw new Error("Cannot save: TimeSystem and SoilSystem are required");
+        }
+
+        return {
+            version: SAVE_FORMAT_VERSION,
+            savedAt: new Date().toISOString(),
+            tick: this.world.getTick(),
+            nextEntityId: this.world.getNextEntityID(),
+            random: this.world.random.getSnapshot(),
+            time: timeSystem.getSnapshot(),
+            soil: soilSystem.getSnapshot(),
+            entities: this.world.getAllEntities().map(entity => snapshotEntity(entity)),
+        };
+    }
+
+    /**
+     * Replace the current world with the contents of a save.
+     */
+    public deserialize(raw: SaveData): void {
+        const data = this.migrate(raw);
+
+        const timeSystem = this.world.getSystem(TimeSystem);
+        const soilSystem = this.world.getSystem(SoilSystem);
+        if (!timeSystem || !soilSystem) {
+            throw new Error("Cannot load: TimeSystem and SoilSystem are required");
+        }
+
+        // Entities
+        this.world.commands.clear();
+        this.world.clearEntities();
+        for (const snapshot of data.entities) {
+            restoreEntity(this.world, snapshot);
+        }
+        this.world.setNextEntityID(data.nextEntityId);
+
+        // Simulation state
+        this.world.setTick(data.tick);
+        this.world.random.loadSnapshot(data.random);
+        soilSystem.loadSnapshot(data.soil);
+        timeSystem.loadSnapshot(data.time);
+
+        this.rebuildDerivedState();
+    }
+
+    public toJSON(): string {
+        return JSON.stringify(this.serialize());
+    }
+
+    public fromJSON(json: string): void {
+        this.deserialize(JSON.parse(json) as SaveData);
+    }
+
+    /**
+     * Package the current world as a named slot for SaveStorage.
+     */
+    public createSlot(name: string, thumbnail: string | null): SaveSlot {
+        const data = this.serialize();
+        const timeSystem = this.world.getSystem(TimeSystem);
+        return {
+            name,
+            savedAt: data.savedAt,
+            gameDay: (timeSystem?.getCurrentDay() ?? 0) + 1,
+            thumbnail,
+            data,
+        };
+    }
+
+    private migrate(data: SaveData): SaveData {
+        let migrated: AnySaveData = data;
+        if (typeof migrated?.version !== "number") {
+            throw new Error("Invalid save file: missing version");
+        }
+        if (migrated.version > SAVE_FORMAT_VERSION) {
+            throw new Error(`Save version ${migrated.version} is newer than supported version ${SAVE_FORMAT_VERSION}`);
+        }
+        while (migrated.version < SAVE_FORMAT_VERSION) {
+            // Each migration is checked against its own shapes above; here the
+            // version number is what ties the data to the right one
+            const migration: ((data: AnySaveData) => AnySaveData) | undefined =
+                (MIGRATIONS as Record<number, (data: AnySaveData) => AnySaveData>)[migrated.version];
+            if (!migration) {
+                throw new Error(`No migration from save version ${migrated.version}`);
+            }
+            migrated = migration(migrated);
+        }
+        return migrated as SaveData;
+    }
+
+    /**
+     * Spatial hash, meshes, lights and caches are derived from entities,
+     * so they are rebuilt rather than saved.
+     */
+    private rebuildDerivedState(): void {
+        this.spatialHash.clear();
+        for (const entity of this.world.getAllEntities()) {
+            const transform = entity.getComponent(TransformComponent);
+            if (!transform) continue;
+            if (occupiesSpace(entity)) {
+                this.spatialHash.add(entity.id, transform.x, transform.z);
+            }
+        }
+
+        // Commands queued against the old world no longer make sense
+        this.world.getSystem(CommandSystem)?.reset();
+        this.world.getSystem(GrowthSystem)?.clearCache();
+        this.world.getSystem(BuildingSystem)?.clearLights();
+        this.world.getSystem(RenderSystem)?.clearEntityMeshes();
+        this.world.getSystem(SleepSystem)?.reset();
+    }
+}
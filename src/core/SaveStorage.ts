@@ -0,0 +1,143 @@
+import { SaveData } from "./SaveManager";
+
+/**
+ * A named save slot as stored in IndexedDB.
+ */
+export interface SaveSlot {
+    name: string;
+    savedAt: string;          // ISO timestamp (same as data.savedAt)
+    gameDay: number;          // 1-based in-game day, for the slot list
+    thumbnail: string | null; // PNG data URL captured from the canvas
+    data: SaveData;
+}
+
+/** Slot list entry without the (large) save payload. */
+export type SaveSlotSummary = Omit<SaveSlot, "data">;
+
+export const AUTOSAVE_SLOT = "Autosave";
+export const QUICKSAVE_SLOT = "Quick Save";
+
+/**
+ * SaveStorage keeps named save slots in IndexedDB.
+ * The database connection is opened once and reused so writes made from a
+ * `beforeunload` handler start synchronously.
+ *
+ * Each slot's summary is also kept in its own store, written in the same
+ * transaction, so listing slots never reads the save payloads.
+ */
+export class SaveStorage {
+    private static readonly DB_NAME = "verdant";
+    private static readonly DB_VERSION = 2;
+    private static readonly STORE = "saves";
+    private static readonly SUMMARY_STORE = "summaries"; // v2+
+
+    private db: IDBDatabase | null = null;
+    private opening: Promise<IDBDatabase> | null = null;
+
+    public open(): Promise<IDBDatabase> {
+        if (this.db) return Promise.resolve(this.db);
+        if (this.opening) return this.opening;
+
+        this.opening = new Promise((resolve, reject) => {
+            const request = indexedDB.open(SaveStorage.DB_NAME, SaveStorage.DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SaveStorage.STORE)) {
+                    db.createObjectStore(SaveStorage.STORE, { keyPath: "name" });
+                }
+                if (!db.objectStoreNames.contains(SaveStorage.SUMMARY_STORE)) {
+                    const summaries = db.createObjectStore(SaveStorage.SUMMARY_STORE, { keyPath: "name" });
+                    summaries.createIndex("savedAt", "savedAt");
+                    // v1 databases: summarise the existing slots once
+                    const cursorRequest = request.transaction!.objectStore(SaveStorage.STORE).openCursor();
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+                        if (!cursor) return;
+                        summaries.put(SaveStorage.summarize(cursor.value as SaveSlot));
+                        cursor.continue();
+                    };
+                }
+            };
+            request.onsuccess = () => {
+                this.db = request.result;
+                resolve(request.result);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        return this.opening;
+    }
+
+    public put(slot: SaveSlot): Promise<void> {
+        // Fast path: start the transaction synchronously when already open
+        if (this.db) return this.putWith(this.db, slot);
+        return this.open().then(db => this.putWith(db, slot));
+    }
+
+    public get(name: string): Promise<SaveSlot | null> {
+        return this.open().then(db => new Promise<SaveSlot | null>((resolve, reject) => {
+            const request = db.transaction(SaveStorage.STORE, "readonly")
+                .objectStore(SaveStorage.STORE)
+                .get(name);
+            request.onsuccess = () => resolve((request.result as SaveSlot | undefined) ?? null);
+            request.onerror = () => reject(request.error);
+        }));
+    }
+
+    /**
+     * List all slots, most recent first.
+     */
+    public list(): Promise<SaveSlotSummary[]> {
+        return this.open().then(db => new Promise<SaveSlotSummary[]>((resolve, reject) => {
+            const request = db.transaction(SaveStorage.SUMMARY_STORE, "readonly")
+                .objectStore(SaveStorage.SUMMARY_STORE)
+                .index("savedAt")
+                .getAll();
+            request.onsuccess = () => resolve((request.result as SaveSlotSummary[]).reverse());
+            request.onerror = () => reject(request.error);
+        }));
+    }
+
+    public delete(name: string): Promise<void> {
+        return this.open().then(db => new Promise<void>((resolve, reject) => {
+            const tx = db.transaction([SaveStorage.STORE, SaveStorage.SUMMARY_STORE], "readwrite");
+            tx.objectStore(SaveStorage.STORE).delete(name);
+            tx.objectStore(SaveStorage.SUMMARY_STORE).delete(name);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        }));
+    }
+
+    /**
+     * The most recently written slot, or null if there are no saves.
+     */
+    public getLatest(): Promise<SaveSlot | null> {
+        return this.open().then(db => new Promise<SaveSlot | null>((resolve, reject) => {
+            const tx = db.transaction([SaveStorage.STORE, SaveStorage.SUMMARY_STORE], "readonly");
+            const cursorRequest = tx.objectStore(SaveStorage.SUMMARY_STORE).index("savedAt").openCursor(null, "prev");
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) {
+                    resolve(null);
+                    return;
+                }
+                const request = tx.objectStore(SaveStorage.STORE).get((cursor.value as SaveSlotSummary).name);
+                request.onsuccess = () => resolve((request.result as SaveSlot | undefined) ?? null);
+            };
+            tx.onerror = () => reject(tx.error);
+        }));
+    }
+
+    private putWith(db: IDBDatabase, slot: SaveSlot): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction([SaveStorage.STORE, SaveStorage.SUMMARY_STORE], "readwrite");
+            tx.objectStore(SaveStorage.STORE).put(slot);
+            tx.objectStore(SaveStorage.SUMMARY_STORE).put(SaveStorage.summarize(slot));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    private static summarize({ data: _data, ...summary }: SaveSlot): SaveSlotSummary {
+        return summary;
+    }
+}
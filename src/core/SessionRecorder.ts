@@ -0,0 +1,100 @@
+import { World } from "./ECS";
+import { PlayerCommand } from "./Commands";
+import { SaveData, SaveManager } from "./SaveManager";
+import { CommandSystem } from "../systems/CommandSystem";
+import { GrowthSystem } from "../systems/GrowthSystem";
+
+/**
+ * Current recording format version. Bump when SessionRecording changes shape.
+ */
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * A recorded play session: the world at the first tick plus every command
+ * dispatched until the last tick. Replaying the commands against the snapshot
+ * reproduces the session exactly (the snapshot carries the RNG state).
+ */
+export interface SessionRecording {
+    version: number;
+    recordedAt: string;
+    startTick: number;
+    endTick: number;
+    snapshot: SaveData;
+    commands: PlayerCommand[];
+}
+
+/**
+ * SessionRecorder captures command streams from CommandSystem and plays them
+ * back through the fixed-step loop.
+ */
+export class SessionRecorder {
+    private world: World;
+    private saveManager: SaveManager;
+    private commandSystem: CommandSystem;
+    private recording: SessionRecording | null = null;
+
+    constructor(world: World, saveManager: SaveManager, commandSystem: CommandSystem) {
+        this.world = world;
+        this.saveManager = saveManager;
+        this.commandSystem = commandSystem;
+
+        this.commandSystem.onCommand((command) => {
+            this.recording?.commands.push(command);
+        });
+    }
+
+    public isRecording(): boolean {
+        return this.recording !== null;
+    }
+
+    public start(): void {
+        if (this.recording || this.commandSystem.isReplaying()) return;
+
+        // Replays start from a loaded snapshot with an empty command queue and a
+        // cold sunlight cache; drop both here too so the run matches from tick one
+        const snapshot = this.saveManager.serialize();
+        this.commandSystem.clearPending();
+        this.world.getSystem(GrowthSystem)?.clearCache();
+        this.recording = {
+            version: RECORDING_FORMAT_VERSION,
+            recordedAt: snapshot.savedAt,
+            startTick: snapshot.tick,
+            endTick: snapshot.tick,
+            snapshot,
+            commands: [],
+        };
+        console.log(`[SessionRecorder] Recording from tick ${snapshot.tick}`);
+    }
+
+    /**
+     * Stop recording and return the session (null if not recording).
+     */
+    public stop(): SessionRecording | null {
+        const recording = this.recording;
+        if (!recording) return null;
+
+        recording.endTick = this.world.getTick();
+        this.recording = null;
+        console.log(`[SessionRecorder] Recorded ${recording.commands.length} commands over ${recording.endTick - recording.startTick} ticks`);
+        return recording;
+    }
+
+    /**
+     * Restore the recording's snapshot and feed its commands back in at their
+     * original ticks. Live input is ignored until the replay reaches endTick.
+     */
+    public replay(recording: SessionRecording, onComplete?: () => void): void {
+        if (recording.version !== RECORDING_FORMAT_VERSION) {
+            throw new Error(`Unsupported recording version ${recording.version}`);
+        }
+        this.recording = null;
+
+        // Loading the snapshot also cancels any replay already running
+        this.saveManager.deserialize(recording.snapshot);
+        this.commandSystem.startReplay(recording.commands, recording.endTick, () => {
+            console.log("[SessionRecorder] Replay finished");
+            onComplete?.();
+        });
+        console.log(`[SessionRecorder] Replaying ${recording.commands.length} commands (ticks ${recording.startTick}-${recording.endTick})`);
+    }
+}
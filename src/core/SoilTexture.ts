@@ -0,0 +1,42 @@
+/**
+ * Soil textures, named from a cell's clay / silt / sand fractions (a
+ * simplified USDA texture triangle). SoilSystem generates the fractions when
+ * a garden is created; they never change in play.
+ *
+ *   sand - drains fast and dries out; little to hold nutrients
+ *   loam - a balanced mix; the most fertile
+ *   silt - smooth and slow to drain; holds water well
+ *   clay - heavy and slow to soak; holds water longest
+ */
+export type SoilTexture = "sand" | "loam" | "silt" | "clay";
+
+// Cells are classified from saved fractions, so this order isn't persisted
+export const SOIL_TEXTURES: SoilTexture[] = ["sand", "loam", "silt", "clay"];
+
+export interface SoilTextureDefinition {
+    label: string;
+    retention: number; // Soil evaporation is divided by this
+    drainage: number;  // Multiplier on how fast surface water soaks in and soil water seeps downhill
+    diffusion: number; // Multiplier on how fast water and nutrients spread sideways
+    fertility: number; // Multiplier on the nutrients a new garden starts with
+    density: number;   // Typical bulk density, g/cm³
+}
+
+export const SOIL_TEXTURE_DEFINITIONS: Record<SoilTexture, SoilTextureDefinition> = {
+    sand: { label: "Sand", retention: 0.6, drainage: 2.0, diffusion: 0.7, fertility: 0.5, density: 1.5 },
+    loam: { label: "Loam", retention: 1.0, drainage: 1.0, diffusion: 1.0, fertility: 1.3, density: 1.35 },
+    silt: { label: "Silt", retention: 1.3, drainage: 0.6, diffusion: 1.2, fertility: 1.1, density: 1.3 },
+    clay: { label: "Clay", retention: 1.6, drainage: 0.35, diffusion: 0.8, fertility: 0.9, density: 1.25 },
+};
+
+/**
+ * Name the texture of a soil with the given clay and sand fractions (0-1;
+ * silt is the rest).
+ */
+export function classifySoilTexture(clay: number, sand: number): SoilTexture {
+    const silt = 1 - clay - sand;
+    if (clay >= 0.4) return "clay";
+    if (sand >= 0.7) return "sand";
+    if (silt >= 0.6) return "silt";
+    return "loam";
+}
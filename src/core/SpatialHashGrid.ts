@@ -41,6 +41,11 @@ export class SpatialHashGrid {
         }
     }
 
+    public clear(): void {
+        this.grid.clear();
+        this.entityPositions.clear();
+    }
+
     public query(x: number, z: number, radius: number): EntityID[] {
         const result: EntityID[] = [];
         const minCellX = Math.floor((x - radius) / this.cellSize);
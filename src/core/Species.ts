@@ -0,0 +1,34 @@
+import type { PlantType } from "../components/PlantGenome";
+
+/**
+ * What a plant species prefers. PlantState.speciesID keys into SPECIES.
+ */
+export interface SpeciesDefinition {
+    label: string;
+    preferredPh: [number, number]; // Soil pH range where it grows at full speed
+}
+
+export const SPECIES: Record<PlantType, SpeciesDefinition> = {
+    sunflower: { label: "Sunflower", preferredPh: [6.0, 7.5] },
+};
+
+const GROWTH_LOSS_PER_PH = 0.3; // Growth lost per pH unit outside the preferred range
+const MIN_PH_GROWTH = 0.3;
+
+/**
+ * Growth multiplier (0.3-1) for a species on soil of a pH: full speed inside
+ * its preferred range, slower the further outside it.
+ */
+export function getPhGrowthFactor(species: SpeciesDefinition, ph: number): number {
+    const [min, max] = species.preferredPh;
+    const outside = ph < min ? min - ph : ph > max ? ph - max : 0;
+    return Math.max(MIN_PH_GROWTH, 1 - outside * GROWTH_LOSS_PER_PH);
+}
+
+/**
+ * Species definition for an ID, falling back to the sunflower for unknown IDs
+ * (e.g. from a newer save).
+ */
+export function getSpecies(speciesID: string): SpeciesDefinition {
+    return SPECIES[speciesID as PlantType] ?? SPECIES.sunflower;
+}
@@ -0,0 +1,87 @@
+/**
+ * Where the sun is in the sky. Angles are in radians.
+ */
+export interface SunPosition {
+    elevation: number;   // Above the horizon (negative at night)
+    azimuth: number;     // Clockwise from north: 0 = north, π/2 = east, π = south
+    // Unit vector from the ground towards the sun (world axes: +x east, +y up, +z north)
+    direction: { x: number; y: number; z: number };
+}
+
+export const DEFAULT_LATITUDE = 45; // Degrees north; negative for the southern hemisphere
+
+const AXIAL_TILT = 23.44 * Math.PI / 180;
+
+/**
+ * SunPath computes the sun's elevation and azimuth from the latitude, the time
+ * of year and the local solar time (noon = 12:00, the sun due south in the
+ * northern hemisphere). The year starts at the local spring equinox (March
+ * in the north, September in the south), so the summer solstice falls a
+ * quarter of the way through it, whatever its length.
+ *
+ * Day length follows: at 45°N the sun is up about 15.4 hours at the summer
+ * solstice and 8.6 at the winter one. Near the poles it may not set or rise.
+ */
+export class SunPath {
+    public readonly latitude: number;
+    private readonly latitudeRadians: number;
+
+    constructor(latitude: number = DEFAULT_LATITUDE) {
+        if (!(latitude >= -90 && latitude <= 90)) {
+            throw new Error(`Latitude must be between -90 and 90 degrees, got ${latitude}`);
+        }
+        this.latitude = latitude;
+        this.latitudeRadians = latitude * Math.PI / 180;
+    }
+
+    /**
+     * Sun declination at a point in the year (0-1, 0 = local spring equinox).
+     */
+    public getDeclination(yearFraction: number): number {
+        const hemisphere = this.latitude < 0 ? -1 : 1;
+        return hemisphere * AXIAL_TILT * Math.sin(2 * Math.PI * yearFraction);
+    }
+
+    /**
+     * Sun position at a point in the year and an hour of the day (0-24).
+     */
+    public getPosition(yearFraction: number, hour: number): SunPosition {
+        const declination = this.getDeclination(yearFraction);
+        const hourAngle = (hour - 12) / 24 * 2 * Math.PI;
+        const lat = this.latitudeRadians;
+
+        const sinElevation = Math.sin(lat) * Math.sin(declination)
+            + Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+        const elevation = Math.asin(Math.max(-1, Math.min(1, sinElevation)));
+        const azimuth = Math.atan2(
+            -Math.sin(hourAngle) * Math.cos(declination),
+            Math.sin(declination) * Math.cos(lat) - Math.cos(declination) * Math.sin(lat) * Math.cos(hourAngle),
+        );
+        const normalizedAzimuth = (azimuth + 2 * Math.PI) % (2 * Math.PI);
+
+        const horizontal = Math.cos(elevation);
+        return {
+            elevation,
+            azimuth: normalizedAzimuth,
+            direction: {
+                x: Math.sin(normalizedAzimuth) * horizontal,
+                y: Math.sin(elevation),
+                z: Math.cos(normalizedAzimuth) * horizontal,
+            },
+        };
+    }
+
+    /**
+     * Sunrise and sunset hours at a point in the year. Polar day gives
+     * 0 and 24; polar night gives 12 and 12 (no daylight).
+     */
+    public getDaylightHours(yearFraction: number): { sunrise: number; sunset: number } {
+        const declination = this.getDeclination(yearFraction);
+        const cosHourAngle = -Math.tan(this.latitudeRadians) * Math.tan(declination);
+        if (cosHourAngle <= -1) return { sunrise: 0, sunset: 24 };
+        if (cosHourAngle >= 1) return { sunrise: 12, sunset: 12 };
+
+        const halfDay = Math.acos(cosHourAngle) / (2 * Math.PI) * 24;
+        return { sunrise: 12 - halfDay, sunset: 12 + halfDay };
+    }
+}
@@ -0,0 +1,209 @@
+import { EntityID, World } from "./ECS";
+import { SpatialHashGrid } from "./SpatialHashGrid";
+import { EntitySnapshot, occupiesSpace, restoreEntity, snapshotEntity } from "./EntitySnapshot";
+import { TransformComponent } from "../components/TransformComponent";
+import { PlayerState } from "../components/PlayerState";
+import { SoilSystem } from "../systems/SoilSystem";
+import { RenderSystem } from "../systems/RenderSystem";
+import type { Nutrient } from "./Nutrients";
+import type { GroundType } from "./Ground";
+
+/**
+ * One reversible effect of a player action. Removed entities carry the
+ * snapshot needed to bring them back; deltas are the amounts actually applied.
+ */
+export type UndoChange =
+    | { kind: "created"; id: EntityID }
+    | { kind: "removed"; id: EntityID; snapshot: EntitySnapshot }
+    | { kind: "seeds"; delta: number }
+    | { kind: "moisture" | Nutrient | "ph" | "density"; x: number; z: number; delta: number }
+    | { kind: "ground"; x: number; z: number; previous: GroundType };
+
+interface UndoEntry {
+    label: string;
+    group: string | null;
+    changes: UndoChange[];
+}
+
+/**
+ * UndoHistory keeps undo/redo stacks of player actions.
+ *
+ * CommandSystem brackets each action with begin()/end() and records what it
+ * changed. Only those changes are reversed: growth, decay, weather and
+ * building effects that happened in between stay as they are. Entries with the
+ * same group (one spray or compost stroke) merge into a single step.
+ */
+export class UndoHistory {
+    public static readonly MAX_ENTRIES = 100;
+
+    private world: World;
+    private spatialHash: SpatialHashGrid;
+    private soilSystem: SoilSystem;
+    private playerEntityId: EntityID;
+
+    private undoStack: UndoEntry[] = [];
+    private redoStack: UndoEntry[] = [];
+    private current: UndoEntry | null = null;
+
+    constructor(world: World, spatialHash: SpatialHashGrid, soilSystem: SoilSystem, playerEntityId: EntityID) {
+        this.world = world;
+        this.spatialHash = spatialHash;
+        this.soilSystem = soilSystem;
+        this.playerEntityId = playerEntityId;
+    }
+
+    /**
+     * Start collecting changes for an action. A group key merges consecutive
+     * actions (e.g. every frame of one spray stroke) into the previous entry.
+     */
+    public begin(label: string, group: string | null = null): void {
+        const top = this.undoStack[this.undoStack.length - 1];
+        if (group !== null && top && top.group === group && this.redoStack.length === 0) {
+            this.current = this.undoStack.pop()!;
+        } else {
+            this.current = { label, group, changes: [] };
+        }
+    }
+
+    /**
+     * Record a change made by the current action. Ignored outside begin()/end().
+     */
+    public record(change: UndoChange): void {
+        if (!this.current) return;
+        if ("delta" in change && change.delta === 0) return;
+        this.current.changes.push(change);
+    }
+
+    /**
+     * Finish the action. Actions that changed nothing leave the history alone.
+     */
+    public end(): void {
+        const entry = this.current;
+        this.current = null;
+        if (!entry || entry.changes.length === 0) return;
+
+        this.undoStack.push(entry);
+        if (this.undoStack.length > UndoHistory.MAX_ENTRIES) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Reverse the most recent action. Returns its label, or null if there was none.
+     */
+    public undo(): string | null {
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+
+        for (let i = entry.changes.length - 1; i >= 0; i--) {
+            entry.changes[i] = this.revert(entry.changes[i]);
+        }
+        entry.changes.reverse();
+        entry.group = null;
+        this.redoStack.push(entry);
+        return entry.label;
+    }
+
+    /**
+     * Re-apply the most recently undone action.
+     */
+    public redo(): string | null {
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+
+        for (let i = entry.changes.length - 1; i >= 0; i--) {
+            entry.changes[i] = this.revert(entry.changes[i]);
+        }
+        entry.changes.reverse();
+        this.undoStack.push(entry);
+        return entry.label;
+    }
+
+    /**
+     * Forget all history (after loading a save or starting a recording).
+     */
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.current = null;
+    }
+
+    /**
+     * Apply the inverse of a change and return the change that undoes that,
+     * so the same entry can move between the undo and redo stacks.
+     * Entities are snapshotted as they are now, so a plant that grew after
+     * being placed comes back grown when the undo is redone.
+     */
+    private revert(change: UndoChange): UndoChange {
+        switch (change.kind) {
+            case "created": {
+                const entity = this.world.getEntity(change.id);
+                if (!entity) return change;
+                const snapshot = snapshotEntity(entity);
+                this.removeEntity(change.id);
+                return { kind: "removed", id: change.id, snapshot };
+            }
+            case "removed": {
+                if (!this.world.getEntity(change.id)) {
+                    this.restore(change.snapshot);
+                }
+                return { kind: "created", id: change.id };
+            }
+            case "seeds": {
+                const playerState = this.world.getEntity(this.playerEntityId)?.getComponent(PlayerState);
+                if (!playerState) return change;
+                const before = playerState.seeds;
+                playerState.seeds = Math.max(0, before - change.delta);
+                return { kind: "seeds", delta: playerState.seeds - before };
+            }
+            case "moisture": {
+                const applied = this.soilSystem.modifyMoistureAt(change.x, change.z, -change.delta);
+                return { ...change, delta: applied };
+            }
+            case "nitrogen":
+            case "phosphorus":
+            case "potassium": {
+                const applied = this.soilSystem.modifyNutrientAt(change.kind, change.x, change.z, -change.delta);
+                return { ...change, delta: applied };
+            }
+            case "ph": {
+                const applied = this.soilSystem.modifyPhAt(change.x, change.z, -change.delta);
+                return { ...change, delta: applied };
+            }
+            case "density": {
+                const applied = this.soilSystem.modifyDensityAt(change.x, change.z, -change.delta);
+                return { ...change, delta: applied };
+            }
+            case "ground": {
+                const replaced = this.soilSystem.setGroundAt(change.x, change.z, change.previous);
+                return { ...change, previous: replaced?.previous ?? change.previous };
+            }
+        }
+    }
+
+    private removeEntity(id: EntityID): void {
+        this.spatialHash.remove(id);
+        this.world.removeEntity(id);
+        this.world.getSystem(RenderSystem)?.disposeEntityMesh(id);
+    }
+
+    private restore(snapshot: EntitySnapshot): void {
+        // Drop any mesh left over from before the entity was removed this frame
+        this.world.getSystem(RenderSystem)?.disposeEntityMesh(snapshot.id);
+
+        const entity = restoreEntity(this.world, snapshot);
+        const transform = entity.getComponent(TransformComponent);
+        if (transform && occupiesSpace(entity)) {
+            this.spatialHash.add(entity.id, transform.x, transform.z);
+        }
+    }
+}
@@ -0,0 +1,380 @@
+import { RandomStream } from "./Random";
+import type { SeasonConditions } from "./Calendar";
+
+export type WeatherType =
+    | "clear"
+    | "overcast"
+    | "drizzle"
+    | "rain"
+    | "thunderstorm"
+    | "hail"
+    | "snow"
+    | "fog"
+    | "heatWave"
+    | "drought";
+
+export type PrecipitationType = "none" | "rain" | "snow" | "hail";
+
+/**
+ * What the weather is doing to the world right now. While one state gives
+ * way to the next, the numbers blend over TRANSITION_HOURS.
+ */
+export interface WeatherParameters {
+    precipitation: number;               // Intensity, 0-1
+    precipitationType: PrecipitationType;
+    wind: { x: number; z: number };      // m/s, the direction the wind blows towards
+    cloudCover: number;                  // 0-1
+    fog: number;                         // 0-1
+    temperatureOffset: number;           // °C added to the seasonal air temperature
+}
+
+export interface WeatherStateDefinition {
+    label: string;
+    icon: string;
+    durationHours: [number, number];
+    precipitation: [number, number];
+    precipitationType: PrecipitationType;
+    windSpeed: [number, number];
+    cloudCover: number;
+    fog: number;
+    temperatureOffset: number;
+    // Relative chance of each state coming next
+    next: Partial<Record<WeatherType, number>>;
+}
+
+export const WEATHER_STATES: Record<WeatherType, WeatherStateDefinition> = {
+    clear: {
+        label: "Clear", icon: "☀️", durationHours: [6, 18],
+        precipitation: [0, 0], precipitationType: "none", windSpeed: [0, 3],
+        cloudCover: 0, fog: 0, temperatureOffset: 0,
+        next: { overcast: 5, fog: 1.5, drizzle: 1, heatWave: 1, drought: 0.5 },
+    },
+    overcast: {
+        label: "Overcast", icon: "☁️", durationHours: [3, 10],
+        precipitation: [0, 0], precipitationType: "none", windSpeed: [1, 5],
+        cloudCover: 0.8, fog: 0, temperatureOffset: -1,
+        next: { clear: 4, drizzle: 3, rain: 3, thunderstorm: 1, snow: 2, fog: 1 },
+    },
+    drizzle: {
+        label: "Drizzle", icon: "🌦️", durationHours: [2, 6],
+        precipitation: [0.15, 0.35], precipitationType: "rain", windSpeed: [1, 4],
+        cloudCover: 0.9, fog: 0.1, temperatureOffset: -2,
+        next: { overcast: 3, rain: 3, clear: 2, snow: 1 },
+    },
+    rain: {
+        label: "Rain", icon: "🌧️", durationHours: [2, 8],
+        precipitation: [0.5, 1], precipitationType: "rain", windSpeed: [2, 8],
+        cloudCover: 1, fog: 0.1, temperatureOffset: -3,
+        next: { drizzle: 3, overcast: 3, thunderstorm: 1.5, hail: 0.5, snow: 1 },
+    },
+    thunderstorm: {
+        label: "Thunderstorm", icon: "⛈️", durationHours: [1, 3],
+        precipitation: [0.9, 1], precipitationType: "rain", windSpeed: [8, 16],
+        cloudCover: 1, fog: 0, temperatureOffset: -4,
+        next: { rain: 4, hail: 1.5, overcast: 2 },
+    },
+    hail: {
+        label: "Hail", icon: "🧊", durationHours: [0.25, 1],
+        precipitation: [0.5, 0.8], precipitationType: "hail", windSpeed: [6, 14],
+        cloudCover: 1, fog: 0, temperatureOffset: -6,
+        next: { rain: 3, overcast: 2 },
+    },
+    snow: {
+        label: "Snow", icon: "🌨️", durationHours: [3, 12],
+        precipitation: [0.3, 0.7], precipitationType: "snow", windSpeed: [1, 6],
+        cloudCover: 1, fog: 0.2, temperatureOffset: -1,
+        next: { overcast: 4, clear: 2 },
+    },
+    fog: {
+        label: "Fog", icon: "🌫️", durationHours: [2, 6],
+        precipitation: [0, 0], precipitationType: "none", windSpeed: [0, 1],
+        cloudCover: 0.7, fog: 1, temperatureOffset: -2,
+        next: { clear: 4, overcast: 3, drizzle: 1 },
+    },
+    heatWave: {
+        label: "Heat wave", icon: "🥵", durationHours: [24, 72],
+        precipitation: [0, 0], precipitationType: "none", windSpeed: [0, 3],
+        cloudCover: 0, fog: 0, temperatureOffset: 8,
+        next: { clear: 4, thunderstorm: 2, drought: 1 },
+    },
+    drought: {
+        label: "Drought", icon: "🏜️", durationHours: [48, 120],
+        precipitation: [0, 0], precipitationType: "none", windSpeed: [3, 8],
+        cloudCover: 0, fog: 0, temperatureOffset: 4,
+        next: { clear: 3, heatWave: 1, overcast: 1 },
+    },
+};
+
+// States that bring precipitation; the season's rain chance scales how often they come
+const WET_STATES: ReadonlySet<WeatherType> = new Set(["drizzle", "rain", "thunderstorm", "hail", "snow"]);
+
+/**
+ * A state the machine entered, with the precipitation intensity it rolled.
+ */
+export interface WeatherTransition {
+    weather: WeatherType;
+    precipitation: number;
+}
+
+/**
+ * One state on a projected weather path. Hours are counted from the start of
+ * the projection; parameters are the state's own (without blending).
+ */
+export interface WeatherSegment {
+    weather: WeatherType;
+    startHour: number;
+    endHour: number;
+    parameters: WeatherParameters;
+}
+
+/**
+ * Season conditions a given number of game-hours after the start of an update.
+ */
+export type ConditionsAt = (hoursAhead: number) => SeasonConditions;
+
+const REFERENCE_RAIN_CHANCE = 0.3;
+const SNOW_MAX_BASE_TEMPERATURE = 5;
+const HOT_MIN_BASE_TEMPERATURE = 15;
+
+/**
+ * Weighted next states after `from`, adjusted for the season (see WeatherMachine).
+ * States the season rules out are left out.
+ */
+export function transitionWeights(from: WeatherType, season: SeasonConditions): [WeatherType, number][] {
+    const cold = season.baseTemperature < SNOW_MAX_BASE_TEMPERATURE;
+    const weights: [WeatherType, number][] = [];
+    for (const [key, base] of Object.entries(WEATHER_STATES[from].next)) {
+        const type = key as WeatherType;
+        let weight = base ?? 0;
+        if (type === "snow" && !cold) weight = 0;
+        if ((type === "thunderstorm" || type === "hail") && cold) weight = 0;
+        if ((type === "heatWave" || type === "drought") && season.baseTemperature < HOT_MIN_BASE_TEMPERATURE) weight = 0;
+        if (WET_STATES.has(type)) weight *= season.rainChance / REFERENCE_RAIN_CHANCE;
+        if (weight > 0) weights.push([type, weight]);
+    }
+    return weights;
+}
+
+/**
+ * True for states that bring rain, snow or hail.
+ */
+export function isWet(type: WeatherType): boolean {
+    return WET_STATES.has(type);
+}
+
+/**
+ * Serializable WeatherMachine state.
+ */
+export interface WeatherSnapshot {
+    state: WeatherType;
+    hoursRemaining: number;
+    from: WeatherParameters;
+    target: WeatherParameters;
+    transition: number; // 0-1 progress of the blend from `from` to `target`
+}
+
+/**
+ * WeatherMachine steps between WEATHER_STATES. Each state lasts a random
+ * number of game-hours, then the next one is drawn from its transition
+ * weights, adjusted for the season:
+ *
+ *   - wet states scale with the season's rain chance (1x at 30%),
+ *   - snow needs a season base temperature under 5°C, and thunderstorms
+ *     and hail need one at or above it,
+ *   - heat waves and droughts need a base temperature of 15°C or more.
+ *
+ * Time is measured in game-hours, so weather follows the game clock at any
+ * speed, and a long step (sleep, catch-up) can pass through several states.
+ * The path doesn't depend on how time is split into steps, so project() can
+ * see the exact weather to come from a copy of the random stream.
+ */
+export class WeatherMachine {
+    public static readonly TRANSITION_HOURS = 1;
+
+    private state: WeatherType = "clear";
+    private hoursRemaining: number = 2; // First change soon
+    private from: WeatherParameters = calmParameters();
+    private target: WeatherParameters = calmParameters();
+    private transition: number = 1;
+    private current: WeatherParameters = calmParameters();
+
+    public getState(): WeatherType {
+        return this.state;
+    }
+
+    public getDefinition(): WeatherStateDefinition {
+        return WEATHER_STATES[this.state];
+    }
+
+    /**
+     * Blended parameters (don't modify; the object is reused until the next update).
+     */
+    public getParameters(): WeatherParameters {
+        return this.current;
+    }
+
+    /**
+     * Advance by `hours` game-hours. Each change picks its next state with the
+     * season conditions at the moment it happens. Returns the states entered, in order.
+     */
+    public update(hours: number, conditionsAt: ConditionsAt, random: RandomStream): WeatherTransition[] {
+        const entered: WeatherTransition[] = [];
+        let elapsed = 0;
+        while (elapsed < hours) {
+            const step = Math.min(hours - elapsed, this.hoursRemaining);
+            this.transition = Math.min(1, this.transition + step / WeatherMachine.TRANSITION_HOURS);
+            this.hoursRemaining -= step;
+            elapsed += step;
+
+            if (this.hoursRemaining <= 0) {
+                this.enter(this.pickNext(conditionsAt(elapsed), random), random);
+                entered.push({ weather: this.state, precipitation: this.target.precipitation });
+            }
+        }
+        this.current = this.blend();
+        return entered;
+    }
+
+    /**
+     * The weather for the next `hours` game-hours, without changing this
+     * machine or `random`. It is the path update() will take with the same stream.
+     */
+    public project(hours: number, conditionsAt: ConditionsAt, random: RandomStream): WeatherSegment[] {
+        const machine = new WeatherMachine();
+        machine.loadSnapshot(this.getSnapshot());
+        const stream = new RandomStream(random.getState());
+
+        const segments: WeatherSegment[] = [];
+        let start = 0;
+        while (start < hours) {
+            const end = start + machine.hoursRemaining;
+            segments.push({
+                weather: machine.state,
+                startHour: start,
+                endHour: Math.min(hours, end),
+                parameters: cloneParameters(machine.target),
+            });
+            if (end >= hours) break;
+
+            const from = start;
+            machine.update(machine.hoursRemaining, (ahead) => conditionsAt(from + ahead), stream);
+            start = end;
+        }
+        return segments;
+    }
+
+    public getSnapshot(): WeatherSnapshot {
+        return {
+            state: this.state,
+            hoursRemaining: this.hoursRemaining,
+            from: cloneParameters(this.from),
+            target: cloneParameters(this.target),
+            transition: this.transition,
+        };
+    }
+
+    public loadSnapshot(snapshot: WeatherSnapshot): void {
+        this.state = snapshot.state;
+        this.hoursRemaining = snapshot.hoursRemaining;
+        this.from = cloneParameters(snapshot.from);
+        this.target = cloneParameters(snapshot.target);
+        this.transition = snapshot.transition;
+        this.current = this.blend();
+    }
+
+    private pickNext(season: SeasonConditions, random: RandomStream): WeatherType {
+        return pickWeighted(transitionWeights(this.state, season), random) ?? "overcast";
+    }
+
+    private enter(type: WeatherType, random: RandomStream): void {
+        const definition = WEATHER_STATES[type];
+        this.state = type;
+        this.hoursRemaining = random.range(definition.durationHours[0], definition.durationHours[1]);
+
+        const precipitation = definition.precipitation[1] > 0
+            ? random.range(definition.precipitation[0], definition.precipitation[1])
+            : 0;
+        const windSpeed = random.range(definition.windSpeed[0], definition.windSpeed[1]);
+        const windAngle = random.range(0, 2 * Math.PI);
+
+        this.from = this.blend();
+        this.target = {
+            precipitation,
+            precipitationType: definition.precipitationType,
+            wind: { x: Math.cos(windAngle) * windSpeed, z: Math.sin(windAngle) * windSpeed },
+            cloudCover: definition.cloudCover,
+            fog: definition.fog,
+            temperatureOffset: definition.temperatureOffset,
+        };
+        this.transition = 0;
+    }
+
+    private blend(): WeatherParameters {
+        const t = this.transition;
+        const lerp = (a: number, b: number) => a + (b - a) * t;
+        return {
+            precipitation: lerp(this.from.precipitation, this.target.precipitation),
+            // Keep showing the old precipitation while it tapers off
+            precipitationType: this.target.precipitation > 0 ? this.target.precipitationType : this.from.precipitationType,
+            wind: { x: lerp(this.from.wind.x, this.target.wind.x), z: lerp(this.from.wind.z, this.target.wind.z) },
+            cloudCover: lerp(this.from.cloudCover, this.target.cloudCover),
+            fog: lerp(this.from.fog, this.target.fog),
+            temperatureOffset: lerp(this.from.temperatureOffset, this.target.temperatureOffset),
+        };
+    }
+}
+
+/**
+ * Draw one entry by weight, or null if there is nothing to draw.
+ */
+export function pickWeighted<T>(weights: [T, number][], random: RandomStream): T | null {
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total <= 0) return null;
+
+    let roll = random.next() * total;
+    for (const [item, weight] of weights) {
+        roll -= weight;
+        if (roll < 0) return item;
+    }
+    return weights[weights.length - 1][0];
+}
+
+function calmParameters(): WeatherParameters {
+    return {
+        precipitation: 0,
+        precipitationType: "none",
+        wind: { x: 0, z: 0 },
+        cloudCover: WEATHER_STATES.clear.cloudCover,
+        fog: 0,
+        temperatureOffset: 0,
+    };
+}
+
+function cloneParameters(parameters: WeatherParameters): WeatherParameters {
+    return { ...parameters, wind: { ...parameters.wind } };
+}
+
+/**
+ * Weather state for a save from before the state machine (rain on/off with
+ * an intensity and a countdown in game-hours).
+ */
+export function legacyWeatherSnapshot(rainIntensity: number, targetRainIntensity: number, hoursRemaining: number): WeatherSnapshot {
+    const raining = targetRainIntensity > 0;
+    const from = calmParameters();
+    from.precipitation = rainIntensity;
+    from.precipitationType = rainIntensity > 0 ? "rain" : "none";
+    const target = calmParameters();
+    if (raining) {
+        target.precipitation = targetRainIntensity;
+        target.precipitationType = "rain";
+        target.cloudCover = WEATHER_STATES.rain.cloudCover;
+        target.temperatureOffset = WEATHER_STATES.rain.temperatureOffset;
+    }
+    return {
+        state: raining ? "rain" : "clear",
+        hoursRemaining: Math.max(0.1, hoursRemaining),
+        from,
+        target,
+        transition: 0,
+    };
+}
@@ -1,8 +1,10 @@
 
 import { Engine } from "./core/Engine";
-import { World } from "./core/ECS";
+import { SystemType, World } from "./core/ECS";
 import { GameLoop } from "./core/GameLoop";
 import { SpatialHashGrid } from "./core/SpatialHashGrid";
+import { Calendar } from "./core/Calendar";
+import { SunPath } from "./core/SunPath";
 import { GrowthSystem } from "./systems/GrowthSystem";
 import { InputSystem } from "./systems/InputSystem";
 import { RenderSystem } from "./systems/RenderSystem";
@@ -11,6 +13,25 @@ import { SoilSystem } from "./systems/SoilSystem";
 import { LightingSystem } from "./systems/LightingSystem";
 import { ToolManager } from "./ui/ToolManager";
 import { DiegeticUISystem } from "./systems/DiegeticUISystem";
+import { SaveManager } from "./core/SaveManager";
+import { SaveStorage, QUICKSAVE_SLOT } from "./core/SaveStorage";
+import { SaveMenu } from "./ui/SaveMenu";
+import { CatchUpSimulation } from "./core/CatchUpSimulation";
+import { PlayerState } from "./components/PlayerState";
+import { TransformComponent } from "./components/TransformComponent";
+import { CommandSystem } from "./systems/CommandSystem";
+import { BuildingSystem } from "./systems/BuildingSystem";
+import { DecaySystem } from "./systems/DecaySystem";
+import { WorldBorderSystem } from "./systems/WorldBorderSystem";
+import { BackgroundSystem } from "./systems/BackgroundSystem";
+import { WaterGraphSystem } from "./systems/WaterGraphSystem";
+import { ProfilerOverlaySystem } from "./systems/ProfilerOverlaySystem";
+import { AutosaveSystem } from "./systems/AutosaveSystem";
+import { SleepSystem } from "./systems/SleepSystem";
+import { SleepScreen } from "./ui/SleepScreen";
+import { SessionRecorder, SessionRecording } from "./core/SessionRecorder";
+import { downloadRecording, pickRecordingFile } from "./ui/RecordingFiles";
+import { describeEntity, registeredComponents } from "./core/ComponentRegistry";
 import "./style.css";
 
 const canvas = document.getElementById("renderCanvas") as HTMLCanvasElement;
@@ -21,74 +42,105 @@ if (!canvas) {
 // Initialize Engine
 const engine = Engine.getInstance(canvas);
 
-// Initialize World and managers
-const world = new World();
+// Initialize World and managers. "?seed=123" reproduces a garden from a bug report;
+// "?latitude=60" moves the garden north (longer summer days, lower winter sun).
+const params = new URLSearchParams(window.location.search);
+const seedParam = params.get("seed");
+const latitudeParam = params.get("latitude");
+const world = new World(seedParam !== null ? Number(seedParam) : undefined);
+console.log(`World seed: ${world.random.getSeed()}`);
 const spatialHash = new SpatialHashGrid(2);
 const toolManager = new ToolManager();
 
-// Add Systems
-const timeSystem = new TimeSystem(world);
-const soilSystem = new SoilSystem(world);
-
 // Create Player Entity
-import { PlayerState } from "./components/PlayerState";
-import { TransformComponent } from "./components/TransformComponent";
-
 const playerEntity = world.createEntity();
 playerEntity.addComponent(new PlayerState());
 // Give player a transform so they exist somewhere (optional, but good for spatial queries if needed later)
 playerEntity.addComponent(new TransformComponent(0, 0, 0));
 
-const inputSystem = new InputSystem(world, spatialHash, toolManager, soilSystem, playerEntity);
-
-// Wire dependencies
-
-world.addSystem(timeSystem);
-world.addSystem(soilSystem);
+// Create Systems (execution order comes from each system's schedule, not from this list)
+const timeSystem = new TimeSystem(world, new Calendar(), latitudeParam !== null ? new SunPath(Number(latitudeParam)) : undefined);
+const soilSystem = new SoilSystem(world);
+const commandSystem = new CommandSystem(world, spatialHash, soilSystem, playerEntity.id);
 const lightingSystem = new LightingSystem(world, timeSystem);
-world.addSystem(lightingSystem);
-
-// Wire lighting dependencies after lightingSystem is created
-soilSystem.setLightingSystem(lightingSystem);
 const growthSystem = new GrowthSystem(world, timeSystem, soilSystem, spatialHash);
-growthSystem.setLightingSystem(lightingSystem);
-world.addSystem(growthSystem);
-
-import { BuildingSystem } from "./systems/BuildingSystem";
 const buildingSystem = new BuildingSystem(world, soilSystem, timeSystem);
-world.addSystem(buildingSystem);
-
-import { DecaySystem } from "./systems/DecaySystem";
 const decaySystem = new DecaySystem(world, timeSystem, soilSystem);
-world.addSystem(decaySystem);
-
-import { WorldBorderSystem } from "./systems/WorldBorderSystem";
+const sleepSystem = new SleepSystem(world, timeSystem, soilSystem);
 const worldBorderSystem = new WorldBorderSystem(world);
-world.addSystem(worldBorderSystem);
-
-import { BackgroundSystem } from "./systems/BackgroundSystem";
 const backgroundSystem = new BackgroundSystem(world);
-world.addSystem(backgroundSystem);
+const inputSystem = new InputSystem(world, spatialHash, toolManager, soilSystem, commandSystem, playerEntity.id);
+const renderSystem = new RenderSystem(world);
+const waterGraphSystem = new WaterGraphSystem(world);
+const profilerOverlaySystem = new ProfilerOverlaySystem(world);
+// Diegetic 3D UI (after camera is ready)
+const diegeticUISystem = new DiegeticUISystem(world, toolManager, playerEntity.id);
 
-world.addSystem(inputSystem);
+// Save / load
+const saveManager = new SaveManager(world, spatialHash);
+const saveStorage = new SaveStorage();
+const saveMenu = new SaveMenu(saveManager, saveStorage);
+const autosaveSystem = new AutosaveSystem(world, timeSystem, saveManager, saveStorage);
+// "While you were away": coarse simulation of the hours since the last save
+saveMenu.setCatchUp(new CatchUpSimulation(world, timeSystem, soilSystem, growthSystem, buildingSystem, decaySystem));
 
-const renderSystem = new RenderSystem(world);
+// Wire dependencies
+commandSystem.setToolManager(toolManager);
+toolManager.setCommandSystem(commandSystem);
+soilSystem.setLightingSystem(lightingSystem);
+growthSystem.setLightingSystem(lightingSystem);
 renderSystem.setLightingSystem(lightingSystem);
-world.addSystem(renderSystem);
+// 3D tooltips and overlay toggles
+inputSystem.setDiegeticUI(diegeticUISystem);
+diegeticUISystem.setOverlaySystems(renderSystem, soilSystem, waterGraphSystem);
+// Sleep: bed button, screen fade and the morning report
+diegeticUISystem.setSleepAction(() => commandSystem.dispatch({ type: "sleep" }));
+new SleepScreen(sleepSystem, commandSystem);
 
-import { WaterGraphSystem } from "./systems/WaterGraphSystem";
-const waterGraphSystem = new WaterGraphSystem(world);
-world.addSystem(waterGraphSystem);
+world.addSystem(
+  commandSystem,
+  timeSystem,
+  soilSystem,
+  lightingSystem,
+  growthSystem,
+  buildingSystem,
+  decaySystem,
+  sleepSystem,
+  worldBorderSystem,
+  backgroundSystem,
+  inputSystem,
+  renderSystem,
+  waterGraphSystem,
+  profilerOverlaySystem,
+  diegeticUISystem,
+  autosaveSystem,
+);
+// Fail at startup, not on the first frame, if the schedules conflict
+world.buildSchedule();
+console.log(`Fixed systems: ${world.getSystemOrder(SystemType.FIXED).map(s => s.name).join(" → ")}`);
 
-// Initialize Diegetic 3D UI System (after camera is ready)
-const diegeticUISystem = new DiegeticUISystem(world, toolManager, playerEntity.id);
-world.addSystem(diegeticUISystem);
+// Session recording / replay
+const sessionRecorder = new SessionRecorder(world, saveManager, commandSystem);
+let lastRecording: SessionRecording | null = null;
 
-// Wire DiegeticUI to InputSystem for 3D tooltips
-inputSystem.setDiegeticUI(diegeticUISystem);
+// Autosave when the tab closes (storage is opened up front so the write starts synchronously)
+window.addEventListener("beforeunload", () => {
+  autosaveSystem.autosave(false).catch(err => console.warn("[AutosaveSystem] Autosave on exit failed", err));
+});
 
-// Wire overlay systems to DiegeticUI for 3D overlay toggles
-diegeticUISystem.setOverlaySystems(renderSystem, soilSystem, waterGraphSystem);
+// Console debugging: verdant.describe(id) dumps an entity's components by registry schema,
+// verdant.components() lists every registered component type, verdant.profile() returns the profiler report
+Object.assign(window, {
+  verdant: {
+    world,
+    describe: (id: number) => {
+      const entity = world.getEntity(id);
+      return entity ? describeEntity(entity) : undefined;
+    },
+    components: () => registeredComponents().map(({ id, persistent, description, schema }) => ({ id, persistent, description, schema })),
+    profile: () => world.profiler.getReport(),
+  },
+});
 
 // Keyboard shortcuts for overlays and inspector
 window.addEventListener("keydown", (e) => {
@@ -107,15 +159,101 @@ window.addEventListener("keydown", (e) => {
     renderSystem.setWaterOverlay(!currentState);
     waterGraphSystem.setVisible(!currentState);
   }
+  if (e.key === "u" || e.key === "U") {
+    // Cycle soil overlay (N -> P -> K -> pH -> density -> off)
+    diegeticUISystem.cycleSoilOverlay();
+  }
   if (e.key === "b" || e.key === "B") {
     // Cycle background preset
     backgroundSystem.cyclePreset();
   }
+  if (e.key === "k" || e.key === "K") {
+    // Quick save
+    saveMenu.saveToSlot(QUICKSAVE_SLOT).catch(err => console.warn("[SaveMenu] Quick save failed", err));
+  }
+  if (e.key === "l" || e.key === "L") {
+    // Quick load
+    saveMenu.loadSlot(QUICKSAVE_SLOT)
+      .then(found => {
+        if (!found) console.log("No quick save found.");
+      })
+      .catch(err => console.warn("[SaveMenu] Quick load failed", err));
+  }
+  if (e.key === "m" || e.key === "M") {
+    // Save slot menu
+    saveMenu.toggle();
+  }
+  if ((e.ctrlKey || e.metaKey) && e.code === "KeyZ") {
+    // Undo / redo player actions (Ctrl+Z / Ctrl+Shift+Z)
+    e.preventDefault();
+    commandSystem.dispatch({ type: e.shiftKey ? "redo" : "undo" });
+  }
+  if (e.key === " ") {
+    // Pause / resume
+    e.preventDefault();
+    loop.togglePause();
+  }
+  if (e.key === "[" || e.key === "]") {
+    // Slower / faster speed preset
+    loop.cycleSpeed(e.key === "]" ? 1 : -1);
+  }
+  if (e.key === ".") {
+    // Step one fixed tick (pauses)
+    loop.stepTick();
+  }
+  if (e.key === "n" || e.key === "N") {
+    // Sleep until morning, or wake early
+    commandSystem.dispatch({ type: sleepSystem.isSleeping() ? "wake" : "sleep" });
+  }
+  if (e.key === "F3") {
+    // Toggle profiler overlay, or download the profiler report with Shift
+    e.preventDefault();
+    if (e.shiftKey) {
+      profilerOverlaySystem.downloadReport();
+    } else {
+      profilerOverlaySystem.toggle();
+    }
+  }
+  if (e.key === "F8") {
+    // Start / stop recording (downloads the session on stop)
+    e.preventDefault();
+    if (sessionRecorder.isRecording()) {
+      lastRecording = sessionRecorder.stop();
+      if (lastRecording) downloadRecording(lastRecording);
+    } else {
+      sessionRecorder.start();
+    }
+  }
+  if (e.key === "F9") {
+    // Replay the last recording, or pick a recording file with Shift
+    e.preventDefault();
+    if (e.shiftKey || !lastRecording) {
+      pickRecordingFile()
+        .then(recording => {
+          if (recording) sessionRecorder.replay(recording);
+        })
+        .catch(err => console.error("Could not load recording", err));
+    } else {
+      sessionRecorder.replay(lastRecording);
+    }
+  }
 });
 
 // Start Loop
 const loop = new GameLoop(engine, world);
 loop.setTimeSystem(timeSystem);
+diegeticUISystem.setGameLoop(loop);
 loop.start();
 
-console.log("Verdant started. Use 3D toolbar or keyboard shortcuts (1=Plant, 2=Inspect, 3=Water, 4=Build, 5=Compost, 6=Harvest), O for overlay, P for water view, Escape to deselect.");
+// "Continue" entry point: offer the most recent save (autosave or named slot).
+// Autosave stays off until the player decides, so reloading can't clobber the last save.
+// It comes back on even if storage failed; autosaves then just warn.
+autosaveSystem.enabled = false;
+saveStorage.open()
+  .then(() => saveMenu.offerContinue())
+  .catch(err => console.warn("Save storage unavailable", err))
+  .finally(() => {
+    autosaveSystem.enabled = true;
+  });
+
+console.log("Verdant started. Use 3D toolbar or keyboard shortcuts (1=Plant, 2=Inspect, 3=Water, 4=Build, 5=Compost, 6=Harvest, 7=Ground), O for overlay, P for water view, K/L to quick save/load, M for saved gardens, Ctrl+Z/Ctrl+Shift+Z to undo/redo, Space to pause, [ ] for speed, . to step one tick, F3 for profiler (Shift+F3 downloads JSON), F8/F9 to record/replay, Escape to deselect.");
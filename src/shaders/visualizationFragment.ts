@@ -11,8 +11,10 @@ varying vec2 vUV;
 varying vec2 vPosition;
 
 // Uniforms
-uniform sampler2D uSimulation;      // Current simulation state (R=Moisture, G=Nitrogen)
-uniform float uOverlayEnabled;      // 1.0 if overlay mode, 0.0 otherwise
+uniform sampler2D uSimulation;      // Current simulation state (R=Moisture, G=Nitrogen, B=pH, A=Density)
+uniform sampler2D uNutrients;       // Other nutrients (R=Phosphorus, G=Potassium, B=Surface water, A=Ground type)
+uniform float uOverlayMode;         // 0 = off, 1 = moisture, 2-4 = N/P/K, 5 = pH, 6 = density
+uniform float uGridSize;            // Soil cells per side
 
 // --- Noise Functions ---
 float hash(vec2 p) {
@@ -42,8 +44,16 @@ void main() {
     vec4 state = texture2D(uSimulation, vUV);
     float moisture = state.r;
     float nitrogen = state.g;
+    float ph = state.b;
+    float density = state.a;
+    vec4 nutrients = texture2D(uNutrients, vUV);
+    // Puddles show from a thin film up; a deep pond is fully water-coloured
+    float ponding = smoothstep(2.0, 30.0, nutrients.b);
+    // Ground type index (see GROUND_TYPES), read at the cell centre so edges stay crisp
+    vec2 cell = floor(vUV * uGridSize);
+    float ground = floor(texture2D(uNutrients, (cell + 0.5) / uGridSize).a + 0.5);
 
-    if (uOverlayEnabled > 0.5) {
+    if (uOverlayMode > 0.5 && uOverlayMode < 1.5) {
         // --- HEATMAP MODE (Water Overlay) ---
         float normalized = moisture / 100.0;
         
@@ -51,7 +61,32 @@ void main() {
         float g = normalized;
         float b = 0.78 + normalized * 0.21;
         
-        gl_FragColor = vec4(r, g, b, 1.0);
+        // Standing water in deep navy
+        gl_FragColor = vec4(mix(vec3(r, g, b), vec3(0.05, 0.12, 0.45), ponding), 1.0);
+    } else if (uOverlayMode > 5.5) {
+        // --- HEATMAP MODE (Density Overlay) ---
+        // Pale when loose, dark red-brown when compacted
+        float compaction = smoothstep(1.0, 1.8, density);
+        gl_FragColor = vec4(mix(vec3(0.95, 0.9, 0.75), vec3(0.45, 0.12, 0.08), compaction), 1.0);
+    } else if (uOverlayMode > 4.5) {
+        // --- HEATMAP MODE (pH Overlay) ---
+        // Indicator colours: red when acidic, green when neutral, blue when alkaline
+        vec3 acid = vec3(0.9, 0.2, 0.15);
+        vec3 neutral = vec3(0.3, 0.85, 0.3);
+        vec3 alkaline = vec3(0.2, 0.35, 0.95);
+        vec3 color = ph < 7.0 ? mix(acid, neutral, smoothstep(4.5, 7.0, ph))
+                              : mix(neutral, alkaline, smoothstep(7.0, 9.0, ph));
+        gl_FragColor = vec4(color, 1.0);
+    } else if (uOverlayMode > 1.5) {
+        // --- HEATMAP MODE (Nutrient Overlay) ---
+        // Dark grey when depleted, the nutrient's colour at 50 and above
+        float amount = uOverlayMode < 2.5 ? nitrogen : uOverlayMode < 3.5 ? nutrients.r : nutrients.g;
+        vec3 full = uOverlayMode < 2.5 ? vec3(0.3, 0.95, 0.3)    // N: green
+                  : uOverlayMode < 3.5 ? vec3(0.95, 0.45, 0.85)  // P: magenta
+                  : vec3(1.0, 0.75, 0.2);                         // K: amber
+        vec3 empty = vec3(0.15, 0.13, 0.12);
+        
+        gl_FragColor = vec4(mix(empty, full, smoothstep(0.0, 50.0, amount)), 1.0);
     } else {
         // --- LIVING EARTH MODE ---
         
@@ -63,6 +98,8 @@ void main() {
         
         // Smooth transition based on nitrogen (0-50 range for full richness)
         vec3 baseColor = mix(dryPale, richDark, smoothstep(0.0, 50.0, nitrogen));
+        // Alkaline (chalky) soil is a little paler and greyer
+        baseColor = mix(baseColor, vec3(0.7, 0.68, 0.62), smoothstep(7.5, 9.5, ph) * 0.4);
 
         // 2. Grain / Texture (fBM Noise)
         // High frequency noise for soil grain (based on 50x50 world size)
@@ -76,7 +113,9 @@ void main() {
         // Effect A: Smoothing
         // Wet soil gets muddy and smooths out the grain.
         // We reduce the grain amplitude as wetness increases.
-        float effectiveGrain = mix(grain, 0.0, wetness * 0.7); 
+        float effectiveGrain = mix(grain, 0.0, wetness * 0.7);
+        // Compacted soil is smooth and crusted; loose soil stays crumbly
+        effectiveGrain *= mix(1.3, 0.5, smoothstep(1.0, 1.8, density));
 
         // Apply grain to base color
         // Modulating the base color by the grain intensity
@@ -87,6 +126,38 @@ void main() {
         // Simple approximation: darker albedo when wet.
         vec3 finalColor = grainyColor * mix(1.0, 0.6, wetness);
 
+        // 4. Ground Cover
+        // Painted ground replaces the soil surface (0 = plain soil)
+        vec2 local = fract(vUV * uGridSize);
+        if (ground > 0.5 && ground < 1.5) {
+            // Pond: deep open water with faint ripples (no puddle drawn on top)
+            float ripple = noise(vUV * 90.0 + vec2(grain * 0.5)) * 0.04;
+            finalColor = vec3(0.1, 0.28, 0.42) + ripple;
+            ponding = 0.0;
+        } else if (ground > 1.5 && ground < 2.5) {
+            // Stone path: one flagstone per cell with mortar joints
+            float joint = step(0.08, local.x) * step(local.x, 0.92) * step(0.08, local.y) * step(local.y, 0.92);
+            vec3 stone = vec3(0.58, 0.56, 0.52) + hash(cell) * 0.06 + grain * 0.03;
+            finalColor = mix(vec3(0.3, 0.28, 0.25), stone, joint);
+        } else if (ground > 2.5 && ground < 3.5) {
+            // Gravel: speckled grey pebbles, darker when wet
+            float pebbles = noise(vUV * 900.0);
+            finalColor = (vec3(0.62, 0.6, 0.56) + pebbles * 0.12) * mix(1.0, 0.8, wetness);
+        } else if (ground > 3.5 && ground < 4.5) {
+            // Bare rock: grey outcrop with dark cracks
+            float crack = smoothstep(0.02, 0.0, abs(fbm(vUV * 60.0)));
+            finalColor = mix(vec3(0.47, 0.46, 0.44) + grain * 0.05, vec3(0.2, 0.19, 0.18), crack);
+        } else if (ground > 4.5) {
+            // Mulch: coarse reddish-brown chips over the soil
+            float chips = noise(vUV * 500.0 + vec2(noise(vUV * 150.0)));
+            finalColor = (vec3(0.4, 0.24, 0.13) + chips * 0.1) * mix(1.0, 0.75, wetness);
+        }
+
+        // Effect C: Ponding
+        // Standing water covers the soil with a murky, faintly rippled surface
+        vec3 puddleColor = vec3(0.22, 0.3, 0.36) + noise(vUV * 120.0) * 0.03;
+        finalColor = mix(finalColor, puddleColor, ponding * 0.85);
+
         gl_FragColor = vec4(finalColor, 1.0);
     }
 }
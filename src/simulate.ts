@@ -0,0 +1,56 @@
+import { HeadlessSimulation } from "./core/HeadlessSimulation";
+import { PlantState } from "./components/PlantState";
+import { DeadPlantState } from "./components/DeadPlantState";
+
+/**
+ * Headless balancing run (no browser needed):
+ *
+ *   npm run simulate -- [days=7] [plants=16] [seed]
+ *
+ * Plants a square grid of seedlings, advances the given number of game-days
+ * and prints one JSON line of garden stats per day. The same seed always
+ * produces the same output.
+ */
+const args = (globalThis as { process?: { argv: string[] } }).process?.argv.slice(2) ?? [];
+const days = Number(args[0] ?? 7);
+const plantCount = Number(args[1] ?? 16);
+const seed = args[2] !== undefined ? Number(args[2]) : undefined;
+
+const sim = new HeadlessSimulation({ seed });
+console.log(`Seed: ${sim.world.random.getSeed()}`);
+
+// Lay plants out on a grid centred on the origin, 3 units apart
+const side = Math.ceil(Math.sqrt(plantCount));
+for (let i = 0; i < plantCount; i++) {
+    const x = (i % side - (side - 1) / 2) * 3;
+    const z = (Math.floor(i / side) - (side - 1) / 2) * 3;
+    sim.plantAt(x, z);
+}
+
+// Per-day event counts
+let deaths = 0;
+let stageChanges = 0;
+sim.world.events.on("plantDied", () => deaths++);
+sim.world.events.on("plantStageChanged", () => stageChanges++);
+
+const started = Date.now();
+for (let day = 1; day <= days; day++) {
+    deaths = 0;
+    stageChanges = 0;
+    sim.advanceDays(1);
+
+    const plants = [...sim.world.getEntitiesWithComponent(PlantState)];
+    const flowering = plants.filter(e => e.getComponent(PlantState)?.stage === "flowering").length;
+    const cells = sim.soilSystem.GRID_SIZE * sim.soilSystem.GRID_SIZE;
+
+    console.log(JSON.stringify({
+        day,
+        living: plants.length,
+        flowering,
+        decomposing: sim.world.getEntitiesWithComponent(DeadPlantState).size,
+        deaths,
+        stageChanges,
+        avgMoisture: Number((sim.soilSystem.getTotalMoisture() / cells).toFixed(2)),
+    }));
+}
+console.log(`Simulated ${days} days in ${Date.now() - started} ms`);
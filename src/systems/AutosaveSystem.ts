@@ -0,0 +1,67 @@
+import { System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
+import { Engine } from "../core/Engine";
+import { SaveManager } from "../core/SaveManager";
+import { AUTOSAVE_SLOT, SaveStorage } from "../core/SaveStorage";
+import { TimeSystem } from "./TimeSystem";
+
+/**
+ * AutosaveSystem writes the garden to the "Autosave" slot every few game-hours.
+ */
+export class AutosaveSystem extends System {
+    public readonly name = "AutosaveSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.POST_SIMULATION };
+
+    private timeSystem: TimeSystem;
+    private saveManager: SaveManager;
+    private storage: SaveStorage;
+
+    // Autosave interval in game-hours
+    public intervalHours: number = 6;
+    // Disabled while the Continue prompt is open so a fresh garden can't overwrite the last autosave
+    public enabled: boolean = true;
+    private hoursSinceSave: number = 0;
+
+    // Reused when a thumbnail can't be captured (e.g. during beforeunload)
+    private lastThumbnail: string | null = null;
+
+    constructor(world: World, timeSystem: TimeSystem, saveManager: SaveManager, storage: SaveStorage) {
+        super(world, SystemType.FIXED);
+        this.timeSystem = timeSystem;
+        this.saveManager = saveManager;
+        this.storage = storage;
+    }
+
+    public update(deltaTime: number): void {
+        if (!this.enabled) return;
+        this.hoursSinceSave += this.timeSystem.toGameTime(deltaTime);
+        if (this.hoursSinceSave >= this.intervalHours) {
+            this.autosave(true).catch(err => console.warn("[AutosaveSystem] Autosave failed", err));
+        }
+    }
+
+    /**
+     * Save immediately. With captureThumbnail = false the write starts
+     * synchronously, which is what a beforeunload handler needs.
+     */
+    public autosave(captureThumbnail: boolean): Promise<void> {
+        if (!this.enabled) return Promise.resolve();
+        this.hoursSinceSave = 0;
+
+        if (!captureThumbnail) {
+            return this.storage.put(this.saveManager.createSlot(AUTOSAVE_SLOT, this.lastThumbnail));
+        }
+
+        // Serialize now so the save reflects this tick, not the time the screenshot resolves
+        const slot = this.saveManager.createSlot(AUTOSAVE_SLOT, this.lastThumbnail);
+        return Engine.getInstance().captureThumbnail()
+            .then(thumbnail => {
+                if (thumbnail) {
+                    this.lastThumbnail = thumbnail;
+                    slot.thumbnail = thumbnail;
+                }
+            })
+            .catch(err => console.warn("[AutosaveSystem] Thumbnail capture failed", err))
+            .then(() => this.storage.put(slot))
+            .then(() => console.log(`[AutosaveSystem] Autosaved (day ${slot.gameDay})`));
+    }
+}
@@ -2,6 +2,8 @@
 import * as BABYLON from "@babylonjs/core";
 import { System, SystemType, World } from "../core/ECS";
 import { Engine } from "../core/Engine";
+import { RandomStream } from "../core/Random";
+import { TimeSystem } from "./TimeSystem";
 
 export enum BackgroundPreset {
     FOREST = "Forest",
@@ -11,9 +13,16 @@ export enum BackgroundPreset {
 }
 
 export class BackgroundSystem extends System {
+    public readonly name = "BackgroundSystem";
     private scene: BABYLON.Scene;
     private backgroundMeshes: BABYLON.Mesh[] = [];
     private currentPreset: BackgroundPreset = BackgroundPreset.FOREST;
+    private random: RandomStream;
+
+    // Foliage materials and their untinted colors, recolored with the seasons
+    private foliage: { material: BABYLON.StandardMaterial; baseColor: BABYLON.Color3 }[] = [];
+    private timeSystem: TimeSystem | null = null;
+    private appliedTint: string = "";
 
     // Config
     private readonly INNER_RADIUS = 35; // Outside fence
@@ -22,13 +31,32 @@ export class BackgroundSystem extends System {
     constructor(world: World) {
         super(world, SystemType.RENDER);
         this.scene = Engine.getInstance().getScene();
+        this.random = world.random.stream("decoration");
 
         // Initial generation
         this.generatePreset(this.currentPreset);
     }
 
     public update(_deltaTime: number): void {
-        // Static meshes
+        // Static meshes; only the foliage color follows the season
+        if (!this.timeSystem) {
+            this.timeSystem = this.world.getSystem(TimeSystem) as TimeSystem | null;
+            if (!this.timeSystem) return;
+        }
+
+        const tint = this.timeSystem.getSeasonConditions().foliageTint;
+        // The tint drifts every tick; only touch the materials when it visibly changes
+        const key = tint.map(c => c.toFixed(2)).join(",");
+        if (key === this.appliedTint) return;
+        this.appliedTint = key;
+
+        for (const { material, baseColor } of this.foliage) {
+            material.diffuseColor = new BABYLON.Color3(
+                Math.min(1, baseColor.r * tint[0]),
+                Math.min(1, baseColor.g * tint[1]),
+                Math.min(1, baseColor.b * tint[2]),
+            );
+        }
     }
 
     public cyclePreset(): void {
@@ -56,6 +84,14 @@ export class BackgroundSystem extends System {
             mesh.dispose();
         });
         this.backgroundMeshes = [];
+        this.foliage = [];
+        this.appliedTint = "";
+    }
+
+    private addFoliage(...materials: BABYLON.StandardMaterial[]): void {
+        for (const material of materials) {
+            this.foliage.push({ material, baseColor: material.diffuseColor.clone() });
+        }
     }
 
     private generatePreset(preset: BackgroundPreset): void {
@@ -76,14 +112,14 @@ export class BackgroundSystem extends System {
     }
 
     private getRandomPosition(minRadius: number, maxRadius: number): BABYLON.Vector3 {
-        const angle = Math.random() * Math.PI * 2;
-        const radius = minRadius + Math.random() * (maxRadius - minRadius);
+        const angle = this.random.next() * Math.PI * 2;
+        const radius = minRadius + this.random.next() * (maxRadius - minRadius);
         const x = Math.cos(angle) * radius;
         const z = Math.sin(angle) * radius;
 
         // Get simple terrain height (approximate, since we are outside the main map)
         // We'll flatten it out a bit at distance
-        const y = 0 - Math.random() * 2;
+        const y = 0 - this.random.next() * 2;
 
         return new BABYLON.Vector3(x, y, z);
     }
@@ -113,13 +149,15 @@ export class BackgroundSystem extends System {
         groundMat.diffuseColor = new BABYLON.Color3(0.05, 0.2, 0.05); // Very dark green ground
         groundMat.specularColor = new BABYLON.Color3(0, 0, 0);
 
+        this.addFoliage(leafMat, groundMat);
+
         // 1. Ground
         this.createGround(groundMat, 400);
 
         // 2. Trees (Inner Ring)
         for (let i = 0; i < treeCount; i++) {
             const pos = this.getRandomPosition(this.INNER_RADIUS, this.OUTER_RADIUS);
-            const scale = 0.8 + Math.random() * 1.5;
+            const scale = 0.8 + this.random.next() * 1.5;
 
             // Trunk
             const trunk = BABYLON.MeshBuilder.CreateCylinder(`tree_trunk_${i}`, {
@@ -148,10 +186,10 @@ export class BackgroundSystem extends System {
         const wallRadius = this.OUTER_RADIUS + 10;
         for (let i = 0; i < wallCount; i++) {
             const angle = (i / wallCount) * Math.PI * 2;
-            const r = wallRadius + Math.random() * 20;
+            const r = wallRadius + this.random.next() * 20;
             const x = Math.cos(angle) * r;
             const z = Math.sin(angle) * r;
-            const scale = 4 + Math.random() * 2; // Huge trees
+            const scale = 4 + this.random.next() * 2; // Huge trees
 
             // Simple combined shape for distant trees
             const tree = BABYLON.MeshBuilder.CreateCylinder(`wall_tree_${i}`, {
@@ -212,8 +250,8 @@ export class BackgroundSystem extends System {
             const pos = this.getRandomPosition(this.INNER_RADIUS, this.OUTER_RADIUS);
 
             // 2.5x - 3x larger than before
-            const height = 30 + Math.random() * 100;
-            const width = 15 + Math.random() * 15;
+            const height = 30 + this.random.next() * 100;
+            const width = 15 + this.random.next() * 15;
 
             const building = BABYLON.MeshBuilder.CreateBox(`building_${i}`, {
                 width: width,
@@ -253,13 +291,15 @@ export class BackgroundSystem extends System {
         cliffMat.diffuseColor = new BABYLON.Color3(0.7, 0.5, 0.4); // Reddish rock
         cliffMat.specularColor = new BABYLON.Color3(0, 0, 0);
 
+        this.addFoliage(cactusMat);
+
         // 1. Ground
         this.createGround(sandMat, 400);
 
         // 2. Cacti
         for (let i = 0; i < cactiCount; i++) {
             const pos = this.getRandomPosition(this.INNER_RADIUS, this.OUTER_RADIUS);
-            const scale = 1 + Math.random();
+            const scale = 1 + this.random.next();
 
             // Main body
             const body = BABYLON.MeshBuilder.CreateCylinder(`cactus_${i}`, {
@@ -272,7 +312,7 @@ export class BackgroundSystem extends System {
             meshes.push(body);
 
             // Arm
-            if (Math.random() > 0.5) {
+            if (this.random.next() > 0.5) {
                 const armHeight = 1.5 * scale;
                 const arm = BABYLON.MeshBuilder.CreateCylinder(`cactus_arm_${i}`, {
                     height: armHeight,
@@ -292,9 +332,9 @@ export class BackgroundSystem extends System {
         const cliffRadius = this.OUTER_RADIUS + 30;
         for (let i = 0; i < cliffCount; i++) {
             const angle = (i / cliffCount) * Math.PI * 2;
-            const r = cliffRadius + (Math.random() * 10 - 5);
-            const width = 20 + Math.random() * 10;
-            const height = 40 + Math.random() * 20;
+            const r = cliffRadius + (this.random.next() * 10 - 5);
+            const width = 20 + this.random.next() * 10;
+            const height = 40 + this.random.next() * 20;
 
             const cliff = BABYLON.MeshBuilder.CreateBox(`cliff_${i}`, {
                 width: width,
@@ -342,6 +382,8 @@ export class BackgroundSystem extends System {
         hillMat.diffuseColor = new BABYLON.Color3(0.25, 0.5, 0.25); // Darker grass hills
         hillMat.specularColor = new BABYLON.Color3(0, 0, 0);
 
+        this.addFoliage(grassMat, hillMat);
+
         // 1. Ground
         this.createGround(grassMat, 400);
 
@@ -350,7 +392,7 @@ export class BackgroundSystem extends System {
             const pos = this.getRandomPosition(this.INNER_RADIUS, this.OUTER_RADIUS);
 
             // 2.5x larger
-            const scale = (1 + Math.random() * 0.5) * 2.5;
+            const scale = (1 + this.random.next() * 0.5) * 2.5;
 
             // House Base
             const base = BABYLON.MeshBuilder.CreateBox(`house_${i}`, {
@@ -386,9 +428,9 @@ export class BackgroundSystem extends System {
             const currentRadius = startRadius + (layer * radiusStep);
 
             for (let i = 0; i < count; i++) {
-                const angle = (i / count) * Math.PI * 2 + (Math.random() * 0.2);
-                const r = currentRadius + (Math.random() * 10 - 5);
-                const size = baseSize + (layer * 15) + (Math.random() * 20);
+                const angle = (i / count) * Math.PI * 2 + (this.random.next() * 0.2);
+                const r = currentRadius + (this.random.next() * 10 - 5);
+                const size = baseSize + (layer * 15) + (this.random.next() * 20);
 
                 const hill = BABYLON.MeshBuilder.CreateSphere(`hill_l${layer}_${i}`, {
                     diameter: size,
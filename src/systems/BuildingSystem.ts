@@ -1,5 +1,6 @@
 
-import { System, SystemType, World, Entity } from "../core/ECS";
+import { System, SystemType, World, Entity, SystemPhase, SystemSchedule } from "../core/ECS";
+import { GrowthSystem } from "./GrowthSystem";
 import { BuildingState } from "../components/BuildingState";
 import { TransformComponent } from "../components/TransformComponent";
 import { SoilSystem } from "./SoilSystem";
@@ -8,6 +9,9 @@ import * as BABYLON from "@babylonjs/core";
 import { Engine } from "../core/Engine";
 
 export class BuildingSystem extends System {
+    public readonly name = "BuildingSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.SIMULATION, after: [GrowthSystem] };
+
     private soilSystem: SoilSystem;
     private timeSystem: TimeSystem;
     private scene: BABYLON.Scene;
@@ -18,6 +22,16 @@ export class BuildingSystem extends System {
         this.soilSystem = soilSystem;
         this.timeSystem = timeSystem;
         this.scene = Engine.getInstance().getScene();
+
+        // Lightposts can disappear through undo or loading, not just through this system
+        this.world.events.on("entityDestroyed", ({ entity }) => {
+            const lightId = `light_${entity.id}`;
+            const light = this.lights.get(lightId);
+            if (light) {
+                light.dispose();
+                this.lights.delete(lightId);
+            }
+        });
     }
 
     public update(deltaTime: number): void {
@@ -37,10 +51,20 @@ export class BuildingSystem extends System {
         }
     }
 
+    /**
+     * Dispose all lightpost lights (they are recreated on the next night tick).
+     */
+    public clearLights(): void {
+        for (const light of this.lights.values()) {
+            light.dispose();
+        }
+        this.lights.clear();
+    }
+
     private updateHose(transform: TransformComponent, deltaTime: number): void {
         // Hose waters the soil directly underneath
-        // Rate: 20% moisture per second
-        this.soilSystem.modifyMoistureAt(transform.x, transform.z, 20 * deltaTime);
+        // Rate: 20% moisture per second (less soaks into compacted soil)
+        this.soilSystem.infiltrateWaterAt(transform.x, transform.z, 20 * deltaTime);
     }
 
     private updateLightpost(entity: Entity, transform: TransformComponent): void {
@@ -48,8 +72,7 @@ export class BuildingSystem extends System {
         let light = this.lights.get(lightId);
 
         // Check time of day
-        const timeOfDay = this.timeSystem.getTimeOfDayFraction();
-        const isDark = timeOfDay < 0.25 || timeOfDay > 0.75;
+        const isDark = !this.timeSystem.isDaylight();
 
         if (isDark) {
             if (!light) {
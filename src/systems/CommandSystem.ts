@@ -0,0 +1,421 @@
+import { Entity, EntityID, System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
+import { SpatialHashGrid } from "../core/SpatialHashGrid";
+import { PlayerCommand, PlayerCommandInput, PlayerCommandType } from "../core/Commands";
+import { UndoHistory } from "../core/UndoHistory";
+import { AMENDMENTS, AmendmentType, NUTRIENTS } from "../core/Nutrients";
+import { GROUND_DEFINITIONS, GroundType } from "../core/Ground";
+import { snapshotEntity } from "../core/EntitySnapshot";
+import { TransformComponent } from "../components/TransformComponent";
+import { PlantState } from "../components/PlantState";
+import { PlantGenome } from "../components/PlantGenome";
+import { Needs } from "../components/Needs";
+import { BuildingState } from "../components/BuildingState";
+import { PlayerState } from "../components/PlayerState";
+import { SoilSystem } from "./SoilSystem";
+import { TimeSystem } from "./TimeSystem";
+import type { BuildingType, ToolManager, ToolType } from "../ui/ToolManager";
+
+// Commands ignored while the player is asleep
+const BLOCKED_WHILE_SLEEPING: ReadonlySet<PlayerCommandType> = new Set([
+    "plant", "build", "harvest", "sprayWater", "applyCompost", "paintGround", "undo", "redo",
+]);
+
+/**
+ * CommandSystem is the single dispatcher for player actions.
+ *
+ * Commands are stamped with the tick they apply at and executed at the start
+ * of that fixed tick, so it runs in the INPUT phase. Tool selection only
+ * changes UI state, so it applies immediately (but is still recorded).
+ *
+ * During a replay, live commands are ignored and the recorded ones are fed in
+ * at their original ticks.
+ *
+ * Every world-changing command records its effects in the undo history.
+ * Undo and redo are commands too, so they replay like any other action.
+ *
+ * Planting is refused on ground that can't take seeds (ponds, paving, rock),
+ * and ground that can't be planted is never painted under a plant or building.
+ *
+ * Sleep and wake are commands as well. While the player sleeps, tools that
+ * change the world are ignored.
+ */
+export class CommandSystem extends System {
+    public readonly name = "CommandSystem";
+    // Player commands apply before anything simulates this tick
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.INPUT };
+
+    private spatialHash: SpatialHashGrid;
+    private soilSystem: SoilSystem;
+    private playerEntityId: EntityID;
+    private toolManager: ToolManager | null = null;
+    private timeSystem: TimeSystem | null = null;
+    public readonly history: UndoHistory;
+
+    private pending: PlayerCommand[] = [];
+    private listeners: ((command: PlayerCommand) => void)[] = [];
+
+    // Replay state
+    private replayCommands: PlayerCommand[] | null = null;
+    private replayIndex: number = 0;
+    private replayEndTick: number = 0;
+    private onReplayComplete: (() => void) | null = null;
+
+    // Placement and tool tuning (shared with InputSystem's cursor feedback)
+    public readonly PLANT_RADIUS = 1.0;
+    public readonly BUILDING_RADIUS = 0.8;
+    public readonly SPRAY_RADIUS = 1.5; // Spray cone radius
+    private readonly SPRAY_RATE = 150; // Moisture per second when spraying
+
+    constructor(world: World, spatialHash: SpatialHashGrid, soilSystem: SoilSystem, playerEntityId: EntityID) {
+        super(world, SystemType.FIXED);
+        this.spatialHash = spatialHash;
+        this.soilSystem = soilSystem;
+        this.playerEntityId = playerEntityId;
+        this.history = new UndoHistory(world, spatialHash, soilSystem, playerEntityId);
+    }
+
+    public setToolManager(toolManager: ToolManager): void {
+        this.toolManager = toolManager;
+    }
+
+    /**
+     * Queue a player action for the next fixed tick.
+     */
+    public dispatch(input: PlayerCommandInput): void {
+        if (this.isReplaying()) return;
+
+        const command = { ...input, tick: this.world.getTick() } as PlayerCommand;
+        for (const listener of this.listeners) {
+            listener(command);
+        }
+
+        if (command.type === "selectTool") {
+            this.execute(command);
+        } else {
+            this.pending.push(command);
+        }
+    }
+
+    /**
+     * Observe every dispatched command (used by SessionRecorder).
+     */
+    public onCommand(listener: (command: PlayerCommand) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Feed recorded commands back in at their ticks until endTick.
+     * The world must already be restored to the recording's starting snapshot.
+     */
+    public startReplay(commands: PlayerCommand[], endTick: number, onComplete?: () => void): void {
+        this.pending = [];
+        this.replayCommands = [...commands].sort((a, b) => a.tick - b.tick);
+        this.replayIndex = 0;
+        this.replayEndTick = endTick;
+        this.onReplayComplete = onComplete ?? null;
+    }
+
+    public stopReplay(): void {
+        if (!this.replayCommands) return;
+        this.replayCommands = null;
+        const onComplete = this.onReplayComplete;
+        this.onReplayComplete = null;
+        onComplete?.();
+    }
+
+    public isReplaying(): boolean {
+        return this.replayCommands !== null;
+    }
+
+    /**
+     * Drop commands dispatched but not yet executed (when a recording starts).
+     */
+    public clearPending(): void {
+        this.pending = [];
+    }
+
+    /**
+     * Drop queued commands, undo history and any replay in progress (after loading a save).
+     */
+    public reset(): void {
+        this.pending = [];
+        this.replayCommands = null;
+        this.onReplayComplete = null;
+        this.history.clear();
+    }
+
+    public update(_deltaTime: number): void {
+        const tick = this.world.getTick();
+
+        // The recording ends before endTick runs
+        if (this.replayCommands && tick >= this.replayEndTick) {
+            this.stopReplay();
+        }
+
+        if (this.replayCommands) {
+            while (this.replayIndex < this.replayCommands.length && this.replayCommands[this.replayIndex].tick <= tick) {
+                this.execute(this.replayCommands[this.replayIndex++]);
+            }
+            return;
+        }
+
+        const ready = this.pending;
+        this.pending = [];
+        for (const command of ready) {
+            this.execute(command);
+        }
+    }
+
+    // --- Entity creation (also used directly by HeadlessSimulation) ---
+
+    public createPlant(x: number, z: number): Entity {
+        const entity = this.world.createEntity();
+        entity.addComponent(new TransformComponent(x, 0.5, z));
+        entity.addComponent(new PlantState());
+        entity.addComponent(new PlantGenome());
+
+        const needs = new Needs();
+        needs.water = 100;
+        entity.addComponent(needs);
+
+        this.spatialHash.add(entity.id, x, z);
+        return entity;
+    }
+
+    public createBuilding(type: BuildingType, x: number, z: number): Entity {
+        const entity = this.world.createEntity();
+        entity.addComponent(new TransformComponent(x, 0, z));
+        entity.addComponent(new BuildingState(type));
+
+        this.spatialHash.add(entity.id, x, z);
+        this.world.events.emit("buildingPlaced", { entityId: entity.id, building: type, x, z });
+        return entity;
+    }
+
+    // --- Command execution ---
+
+    private execute(command: PlayerCommand): void {
+        if (!this.timeSystem) {
+            this.timeSystem = this.world.getSystem(TimeSystem) as TimeSystem | null;
+        }
+        if (this.timeSystem?.getIsSleeping() && BLOCKED_WHILE_SLEEPING.has(command.type)) {
+            console.log(`Ignored ${command.type}: sleeping`);
+            return;
+        }
+
+        switch (command.type) {
+            case "plant":
+                this.history.begin("Plant");
+                this.plant(command.x, command.z);
+                this.history.end();
+                break;
+            case "build":
+                this.history.begin(`Build ${command.building}`);
+                this.build(command.building, command.x, command.z);
+                this.history.end();
+                break;
+            case "harvest":
+                this.history.begin("Harvest");
+                this.harvest(command.entityId);
+                this.history.end();
+                break;
+            case "sprayWater":
+                this.history.begin("Water", command.stroke !== undefined ? `water:${command.stroke}` : null);
+                this.sprayWater(command.x, command.z, command.duration);
+                this.history.end();
+                break;
+            case "applyCompost": {
+                const amendment = command.amendment ?? "compost";
+                this.history.begin(AMENDMENTS[amendment].label, command.stroke !== undefined ? `compost:${command.stroke}` : null);
+                this.applyAmendment(amendment, command.x, command.z, command.duration);
+                this.history.end();
+                break;
+            }
+            case "paintGround":
+                this.history.begin(`Paint ${GROUND_DEFINITIONS[command.ground].label}`, command.stroke !== undefined ? `ground:${command.stroke}` : null);
+                this.paintGround(command.ground, command.x, command.z);
+                this.history.end();
+                break;
+            case "selectTool":
+                this.selectTool(command.tool, command.building, command.amendment, command.ground);
+                break;
+            case "undo": {
+                const label = this.history.undo();
+                if (label) console.log(`Undo: ${label}`);
+                break;
+            }
+            case "redo": {
+                const label = this.history.redo();
+                if (label) console.log(`Redo: ${label}`);
+                break;
+            }
+            case "sleep":
+                if (this.timeSystem?.startSleep()) console.log("Sleeping until 6:00");
+                break;
+            case "wake":
+                this.timeSystem?.cancelSleep();
+                break;
+        }
+    }
+
+    private getPlayerState(): PlayerState | undefined {
+        return this.world.getEntity(this.playerEntityId)?.getComponent(PlayerState);
+    }
+
+    private plant(x: number, z: number): void {
+        const playerState = this.getPlayerState();
+        if (!playerState || playerState.seeds <= 0) {
+            console.log("No seeds available!");
+            return;
+        }
+        if (this.spatialHash.hasNearby(x, z, this.PLANT_RADIUS)) return;
+        if (!this.soilSystem.isPlantableAt(x, z)) {
+            console.log(`Can't plant on ${GROUND_DEFINITIONS[this.soilSystem.getGroundAt(x, z)].label.toLowerCase()}`);
+            return;
+        }
+
+        // Consume a seed
+        playerState.seeds--;
+        const entity = this.createPlant(x, z);
+        this.history.record({ kind: "seeds", delta: -1 });
+        this.history.record({ kind: "created", id: entity.id });
+
+        console.log(`Planted entity ${entity.id} at (${x.toFixed(2)}, ${z.toFixed(2)}). Seeds remaining: ${playerState.seeds}`);
+    }
+
+    private build(type: BuildingType, x: number, z: number): void {
+        if (!type) return;
+        if (this.spatialHash.hasNearby(x, z, this.BUILDING_RADIUS)) return;
+
+        const entity = this.createBuilding(type, x, z);
+        this.history.record({ kind: "created", id: entity.id });
+        console.log(`Built ${type} at (${x.toFixed(2)}, ${z.toFixed(2)})`);
+    }
+
+    private harvest(entityId: EntityID): void {
+        const entity = this.world.getEntity(entityId);
+        if (!entity) return;
+
+        const plantState = entity.getComponent(PlantState);
+        const transform = entity.getComponent(TransformComponent);
+        if (!plantState || !transform) return;
+
+        // Can't harvest dead plants
+        if (plantState.health <= 0) {
+            console.log("Cannot harvest dead plant!");
+            return;
+        }
+
+        // Determine seed reward based on stage
+        const seedReward = plantState.stage === "flowering" ? 2 : 1;
+
+        const playerState = this.getPlayerState();
+        if (playerState) {
+            playerState.seeds += seedReward;
+            this.history.record({ kind: "seeds", delta: seedReward });
+        }
+
+        this.history.record({ kind: "removed", id: entity.id, snapshot: snapshotEntity(entity) });
+        this.spatialHash.remove(entity.id);
+        this.world.removeEntity(entity.id);
+        this.world.events.emit("plantHarvested", { entityId: entity.id, stage: plantState.stage, seeds: seedReward });
+
+        console.log(`Harvested plant #${entity.id} (stage: ${plantState.stage}), got ${seedReward} seeds. Total: ${playerState?.seeds}`);
+    }
+
+    /**
+     * Add moisture to every soil cell under the spray cone, weighted by how
+     * much of the cell the cone covers.
+     */
+    private sprayWater(x: number, z: number, duration: number): void {
+        const cellSize = this.soilSystem.CELL_SIZE;
+        const range = this.SPRAY_RADIUS;
+
+        const startX = Math.floor((x - range) / cellSize);
+        const endX = Math.floor((x + range) / cellSize);
+        const startZ = Math.floor((z - range) / cellSize);
+        const endZ = Math.floor((z + range) / cellSize);
+
+        for (let cx = startX; cx <= endX; cx++) {
+            for (let cz = startZ; cz <= endZ; cz++) {
+                const cellCenterX = cx * cellSize + cellSize / 2;
+                const cellCenterZ = cz * cellSize + cellSize / 2;
+                const dist = Math.sqrt(Math.pow(cellCenterX - x, 2) + Math.pow(cellCenterZ - z, 2));
+                if (dist >= range) continue;
+
+                // Approximate square/circle intersection:
+                // fully covered inside (range - half a cell), linear falloff across the edge
+                let factor = 1.0;
+                if (dist > range - cellSize / 2) {
+                    factor = 1.0 - (dist - (range - cellSize / 2)) / cellSize;
+                }
+                factor = Math.max(0, Math.min(1, factor));
+
+                if (factor > 0) {
+                    const delta = this.soilSystem.infiltrateWaterAt(cellCenterX, cellCenterZ, this.SPRAY_RATE * duration * factor);
+                    this.history.record({ kind: "moisture", x: cellCenterX, z: cellCenterZ, delta });
+                }
+            }
+        }
+    }
+
+    /**
+     * Spread an amendment on one cell; each nutrient is added at its own rate,
+     * then the pH and density shift by the amendment's rates.
+     */
+    private applyAmendment(amendment: AmendmentType, x: number, z: number, duration: number): void {
+        const { rates, ph, density } = AMENDMENTS[amendment];
+        for (const nutrient of NUTRIENTS) {
+            if (rates[nutrient] <= 0) continue;
+            const delta = this.soilSystem.modifyNutrientAt(nutrient, x, z, rates[nutrient] * duration);
+            this.history.record({ kind: nutrient, x, z, delta });
+        }
+        if (ph) {
+            const delta = this.soilSystem.modifyPhAt(x, z, ph * duration);
+            this.history.record({ kind: "ph", x, z, delta });
+        }
+        if (density) {
+            const delta = this.soilSystem.modifyDensityAt(x, z, density * duration);
+            this.history.record({ kind: "density", x, z, delta });
+        }
+    }
+
+    /**
+     * Paint a ground type on the cell under (x, z). Unplantable ground is not
+     * painted where something already stands in the cell.
+     */
+    private paintGround(ground: GroundType, x: number, z: number): void {
+        const { cellX, cellZ } = this.soilSystem.getCellCoords(x, z);
+        const cellSize = this.soilSystem.CELL_SIZE;
+        if (this.soilSystem.getGroundAt(x, z) === ground) return;
+        if (!GROUND_DEFINITIONS[ground].plantable) {
+            const centerX = (cellX + 0.5) * cellSize;
+            const centerZ = (cellZ + 0.5) * cellSize;
+            const occupied = this.spatialHash.query(centerX, centerZ, cellSize).some(id => {
+                const transform = this.world.getEntity(id)?.getComponent(TransformComponent);
+                return transform !== undefined && Math.floor(transform.x / cellSize) === cellX && Math.floor(transform.z / cellSize) === cellZ;
+            });
+            if (occupied) return;
+        }
+
+        const replaced = this.soilSystem.setGroundAt(x, z, ground);
+        if (replaced !== null) {
+            this.history.record({ kind: "ground", x, z, previous: replaced.previous });
+            // Ponds and paving pin the moisture; undo puts the old value back first
+            this.history.record({ kind: "moisture", x, z, delta: replaced.moistureDelta });
+        }
+    }
+
+    private selectTool(tool: ToolType, building?: BuildingType, amendment?: AmendmentType, ground?: GroundType): void {
+        if (!this.toolManager) return;
+        if (building !== undefined) {
+            this.toolManager.setActiveBuilding(building);
+        } else if (amendment !== undefined) {
+            this.toolManager.setActiveAmendment(amendment);
+        } else if (ground !== undefined) {
+            this.toolManager.setActiveGround(ground);
+        } else {
+            this.toolManager.setTool(tool);
+        }
+    }
+}
@@ -1,19 +1,29 @@
 
-import { System, SystemType, World } from "../core/ECS";
+import { System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
+import { GrowthSystem } from "./GrowthSystem";
 import { DeadPlantState } from "../components/DeadPlantState";
 import { TransformComponent } from "../components/TransformComponent";
 import { TimeSystem } from "./TimeSystem";
 import { SoilSystem } from "./SoilSystem";
+import { NUTRIENTS, Nutrient } from "../core/Nutrients";
 
 /**
- * DecaySystem handles dead plant decomposition and nitrogen release.
+ * DecaySystem handles dead plant decomposition and nutrient release.
+ * DeadPlantState tracks the nitrogen; phosphorus and potassium come back in
+ * proportion to it.
  */
 export class DecaySystem extends System {
+    public readonly name = "DecaySystem";
+    // Plants that die this tick start decaying this tick
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.SIMULATION, after: [GrowthSystem] };
+
     private timeSystem: TimeSystem;
     private soilSystem: SoilSystem;
 
     // Decay rate in % per game-hour
     private readonly DECAY_RATE = 5;
+    // Nutrient released per unit of nitrogen
+    private readonly RELEASE_RATIO: Record<Nutrient, number> = { nitrogen: 1, phosphorus: 0.2, potassium: 0.5 };
 
     constructor(world: World, timeSystem: TimeSystem, soilSystem: SoilSystem) {
         super(world, SystemType.FIXED);
@@ -35,16 +45,18 @@ export class DecaySystem extends System {
             const decayIncrement = this.DECAY_RATE * gameHoursDelta;
             state.decayProgress = Math.min(100, state.decayProgress + decayIncrement);
 
-            // Release nitrogen proportionally
+            // Release nutrients proportionally
             const nitrogenToRelease = (state.nitrogenTotal - state.nitrogenReleased) * (decayIncrement / (100 - state.decayProgress + decayIncrement));
             if (nitrogenToRelease > 0) {
-                this.soilSystem.modifyNitrogenAt(transform.x, transform.z, nitrogenToRelease);
+                for (const nutrient of NUTRIENTS) {
+                    this.soilSystem.modifyNutrientAt(nutrient, transform.x, transform.z, nitrogenToRelease * this.RELEASE_RATIO[nutrient]);
+                }
                 state.nitrogenReleased += nitrogenToRelease;
             }
 
-            // Remove fully decayed plants
+            // Remove fully decayed plants (deferred until after this system)
             if (state.decayProgress >= 100) {
-                this.world.removeEntity(entity.id);
+                this.world.commands.destroyEntity(entity.id);
             }
         }
     }
@@ -3,12 +3,17 @@ import { ToolManager, ToolType, BuildingType } from "../ui/ToolManager";
 import { Engine } from "../core/Engine";
 import { TimeSystem } from "./TimeSystem";
 import { PlayerState } from "../components/PlayerState";
+import { GameLoop } from "../core/GameLoop";
+import { WEATHER_STATES } from "../core/Weather";
+import { FORECAST_DAYS, Forecast } from "../core/Forecast";
+import { AMENDMENTS, AmendmentType, NUTRIENTS, SOIL_OVERLAYS, SoilOverlay, getSoilOverlayLabel } from "../core/Nutrients";
+import { GROUND_DEFINITIONS, GROUND_TYPES, GroundType } from "../core/Ground";
 import * as BABYLON from "@babylonjs/core";
 import * as GUI from "@babylonjs/gui";
 
 // Forward declaration types for overlay systems
 type RenderSystemType = { setOverlayEnabled: (enabled: boolean) => void; setWaterOverlay: (enabled: boolean) => void };
-type SoilSystemType = { setWaterOverlay: (enabled: boolean) => void };
+type SoilSystemType = { setWaterOverlay: (enabled: boolean) => void; setSoilOverlay: (overlay: SoilOverlay | null) => void };
 type WaterGraphSystemType = { setVisible: (visible: boolean) => void };
 
 interface ToolConfig {
@@ -22,10 +27,20 @@ const TOOLS: ToolConfig[] = [
     { type: "inspect", label: "Inspect", icon: "🔍" },
     { type: "water", label: "Water", icon: "💧" },
     { type: "build", label: "Build", icon: "🔨" },
-    { type: "compost", label: "Compost", icon: "🧪" },
+    { type: "compost", label: "Amend", icon: "🧪" },
     { type: "harvest", label: "Harvest", icon: "🌾" },
+    { type: "ground", label: "Ground", icon: "🖌️" },
 ];
 
+// One day's column in the forecast panel
+interface ForecastColumn {
+    panel: GUI.StackPanel;
+    label: GUI.TextBlock;
+    icon: GUI.TextBlock;
+    chance: GUI.TextBlock;
+    temperatures: GUI.TextBlock;
+}
+
 interface BuildingConfig {
     type: BuildingType;
     label: string;
@@ -38,6 +53,7 @@ const BUILDINGS: BuildingConfig[] = [
 ];
 
 export class DiegeticUISystem extends System {
+    public readonly name = "DiegeticUISystem";
     private manager: GUI.GUI3DManager;
 
     // Toolbar
@@ -54,6 +70,20 @@ export class DiegeticUISystem extends System {
     private clockText: GUI.TextBlock;
     private seedText: GUI.TextBlock;
 
+    // Time controls (second row of the status HUD)
+    private gameLoop: GameLoop | null = null;
+    private speedText: GUI.TextBlock;
+    private pauseButton: GUI.Button;
+    private speedButtons: Map<number, GUI.Button> = new Map();
+    private sleepAction: (() => void) | null = null;
+
+    // Forecast panel (right of the status HUD)
+    private forecastAnchor: BABYLON.TransformNode;
+    private forecastPlane: BABYLON.Mesh;
+    private forecastADT: GUI.AdvancedDynamicTexture;
+    private forecastColumns: ForecastColumn[] = [];
+    private shownForecast: Forecast | null = null;
+
     // 3D Inspect Tooltip
     private tooltipPlane: BABYLON.Mesh;
     private tooltipADT: GUI.AdvancedDynamicTexture;
@@ -67,6 +97,18 @@ export class DiegeticUISystem extends System {
     private buildingButtonADTs: Map<BuildingType, GUI.AdvancedDynamicTexture> = new Map();
     private buildingButtonBackgrounds: Map<BuildingType, GUI.Rectangle> = new Map();
 
+    // Amendment Submenu (compost tool)
+    private amendSubmenuAnchor: BABYLON.TransformNode;
+    private amendSubmenuPanel: GUI.StackPanel3D;
+    private amendmentButtons: Map<AmendmentType, GUI.MeshButton3D> = new Map();
+    private amendmentButtonBackgrounds: Map<AmendmentType, GUI.Rectangle> = new Map();
+
+    // Ground Submenu (ground tool)
+    private groundSubmenuAnchor: BABYLON.TransformNode;
+    private groundSubmenuPanel: GUI.StackPanel3D;
+    private groundButtons: Map<GroundType, GUI.MeshButton3D> = new Map();
+    private groundButtonBackgrounds: Map<GroundType, GUI.Rectangle> = new Map();
+
     // Dependencies
     private toolManager: ToolManager;
     private scene: BABYLON.Scene;
@@ -85,6 +127,9 @@ export class DiegeticUISystem extends System {
     private waterOverlayEnabled: boolean = false;
     private plantOverlayBackground: GUI.Rectangle | null = null;
     private waterOverlayBackground: GUI.Rectangle | null = null;
+    private soilOverlay: SoilOverlay | null = null;
+    private soilOverlayBackground: GUI.Rectangle | null = null;
+    private soilOverlayLabel: GUI.TextBlock | null = null;
 
     constructor(world: World, toolManager: ToolManager, playerEntityId: EntityID) {
         super(world, SystemType.RENDER);
@@ -113,16 +158,16 @@ export class DiegeticUISystem extends System {
         this.statusAnchor = new BABYLON.TransformNode("status_anchor", this.scene);
         this.updateStatusAnchorPosition();
 
-        // Create a wide plane for the status panel
+        // Create a wide plane for the status panel (clock row + time controls row)
         this.statusPlane = BABYLON.MeshBuilder.CreatePlane("status_plane", {
             width: 0.6,
-            height: 0.15
+            height: 0.24
         }, this.scene);
         this.statusPlane.rotation.y = Math.PI;
         this.statusPlane.parent = this.statusAnchor;
         this.statusPlane.receiveShadows = false;
 
-        this.statusADT = GUI.AdvancedDynamicTexture.CreateForMesh(this.statusPlane, 600, 150);
+        this.statusADT = GUI.AdvancedDynamicTexture.CreateForMesh(this.statusPlane, 600, 240);
 
         // Background
         const statusBg = new GUI.Rectangle();
@@ -134,10 +179,14 @@ export class DiegeticUISystem extends System {
         statusBg.background = "rgba(20, 20, 40, 0.85)";
         this.statusADT.addControl(statusBg);
 
+        const statusRows = new GUI.StackPanel();
+        statusBg.addControl(statusRows);
+
         // Horizontal layout
         const statusStack = new GUI.StackPanel();
         statusStack.isVertical = false;
-        statusBg.addControl(statusStack);
+        statusStack.height = "150px";
+        statusRows.addControl(statusStack);
 
         // Clock section
         this.clockText = new GUI.TextBlock();
@@ -173,18 +222,57 @@ export class DiegeticUISystem extends System {
         divider2.thickness = 0;
         statusStack.addControl(divider2);
 
-        // Day indicator
+        // Date indicator (season and day, year below)
         const dayText = new GUI.TextBlock();
-        dayText.text = "Day 1"; // Will be updated dynamically
-        dayText.fontSize = 40;
+        dayText.text = "🌸 Spring 1\nYear 1"; // Will be updated dynamically
+        dayText.fontSize = 32;
         dayText.color = "#aaaaff";
-        dayText.width = "150px";
+        dayText.width = "240px";
         dayText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
         statusStack.addControl(dayText);
 
         // Store day text for updates
         (this as any)._dayText = dayText;
 
+        // Time controls row
+        const speedStack = new GUI.StackPanel();
+        speedStack.isVertical = false;
+        speedStack.height = "80px";
+        statusRows.addControl(speedStack);
+
+        this.speedText = new GUI.TextBlock();
+        this.speedText.text = "▶ 1x";
+        this.speedText.fontSize = 36;
+        this.speedText.color = "white";
+        this.speedText.width = "150px";
+        this.speedText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        speedStack.addControl(this.speedText);
+
+        this.pauseButton = this.createSpeedButton("speed_pause", "⏸", () => this.gameLoop?.togglePause());
+        speedStack.addControl(this.pauseButton);
+        for (const preset of GameLoop.SPEED_PRESETS) {
+            const button = this.createSpeedButton(`speed_${preset}`, `${preset}x`, () => this.gameLoop?.setSpeed(preset));
+            this.speedButtons.set(preset, button);
+            speedStack.addControl(button);
+        }
+        speedStack.addControl(this.createSpeedButton("speed_step", "⏭", () => this.gameLoop?.stepTick()));
+        speedStack.addControl(this.createSpeedButton("sleep", "🛏️", () => this.sleepAction?.()));
+
+        // === FORECAST PANEL ===
+        this.forecastAnchor = new BABYLON.TransformNode("forecast_anchor", this.scene);
+        this.updateForecastAnchorPosition();
+
+        this.forecastPlane = BABYLON.MeshBuilder.CreatePlane("forecast_plane", {
+            width: 0.6,
+            height: 0.24
+        }, this.scene);
+        this.forecastPlane.rotation.y = Math.PI;
+        this.forecastPlane.parent = this.forecastAnchor;
+        this.forecastPlane.receiveShadows = false;
+
+        this.forecastADT = GUI.AdvancedDynamicTexture.CreateForMesh(this.forecastPlane, 600, 240);
+        this.createForecastColumns();
+
         // === INSPECT TOOLTIP ===
         this.tooltipPlane = BABYLON.MeshBuilder.CreatePlane("inspect_tooltip", {
             width: 5.6,   // 0.8 * 7
@@ -226,6 +314,30 @@ export class DiegeticUISystem extends System {
         this.createBuildingButtons();
         this.hideBuildSubmenu(); // Start hidden
 
+        // === AMENDMENT SUBMENU ===
+        this.amendSubmenuAnchor = new BABYLON.TransformNode("amend_submenu_anchor", this.scene);
+
+        this.amendSubmenuPanel = new GUI.StackPanel3D();
+        this.amendSubmenuPanel.isVertical = false;
+        this.amendSubmenuPanel.margin = 0.015;
+        this.manager.addControl(this.amendSubmenuPanel);
+        this.amendSubmenuPanel.linkToTransformNode(this.amendSubmenuAnchor);
+
+        this.createAmendmentButtons();
+        this.hideAmendSubmenu(); // Start hidden
+
+        // === GROUND SUBMENU ===
+        this.groundSubmenuAnchor = new BABYLON.TransformNode("ground_submenu_anchor", this.scene);
+
+        this.groundSubmenuPanel = new GUI.StackPanel3D();
+        this.groundSubmenuPanel.isVertical = false;
+        this.groundSubmenuPanel.margin = 0.015;
+        this.manager.addControl(this.groundSubmenuPanel);
+        this.groundSubmenuPanel.linkToTransformNode(this.groundSubmenuAnchor);
+
+        this.createGroundButtons();
+        this.hideGroundSubmenu(); // Start hidden
+
         // === OVERLAY TOGGLE PANEL ===
         this.overlayAnchor = new BABYLON.TransformNode("overlay_anchor", this.scene);
         this.updateOverlayAnchorPosition();
@@ -251,6 +363,18 @@ export class DiegeticUISystem extends System {
             } else {
                 this.hideBuildSubmenu();
             }
+            // Show/hide amendment submenu
+            if (tool === "compost") {
+                this.showAmendSubmenu();
+            } else {
+                this.hideAmendSubmenu();
+            }
+            // Show/hide ground submenu
+            if (tool === "ground") {
+                this.showGroundSubmenu();
+            } else {
+                this.hideGroundSubmenu();
+            }
         });
 
         this.scene.onAfterRenderObservable.addOnce(() => {
@@ -258,6 +382,20 @@ export class DiegeticUISystem extends System {
         });
     }
 
+    /**
+     * Connect the status HUD's time controls to the game loop.
+     */
+    public setGameLoop(gameLoop: GameLoop): void {
+        this.gameLoop = gameLoop;
+    }
+
+    /**
+     * Set what the status HUD's bed button does (dispatch a sleep command).
+     */
+    public setSleepAction(action: () => void): void {
+        this.sleepAction = action;
+    }
+
     /**
      * Set overlay systems for toggle functionality.
      */
@@ -299,7 +437,7 @@ export class DiegeticUISystem extends System {
         // Position: upper-left of camera view
         const uiPosition = cameraPosition.add(forward.scale(2.2));
         uiPosition.addInPlace(right.scale(-1.1)); // Move left
-        uiPosition.addInPlace(up.scale(0.78)); // Move up
+        uiPosition.addInPlace(up.scale(0.74)); // Move up
 
         this.statusAnchor.position = uiPosition;
 
@@ -310,6 +448,27 @@ export class DiegeticUISystem extends System {
         this.statusAnchor.rotation = new BABYLON.Vector3(0, angleY, 0);
     }
 
+    private updateForecastAnchorPosition(): void {
+        const camera = this.scene.activeCamera;
+        if (!camera) return;
+
+        const cameraPosition = camera.position.clone();
+        const forward = camera.getDirection(BABYLON.Axis.Z).normalize();
+        const right = camera.getDirection(BABYLON.Axis.X).normalize();
+        const up = camera.getDirection(BABYLON.Axis.Y).normalize();
+
+        // Position: just right of the status HUD, level with it
+        const uiPosition = cameraPosition.add(forward.scale(2.2));
+        uiPosition.addInPlace(right.scale(-0.46));
+        uiPosition.addInPlace(up.scale(0.74));
+
+        this.forecastAnchor.position = uiPosition;
+
+        const dirToCamera = cameraPosition.subtract(uiPosition);
+        const angleY = Math.atan2(dirToCamera.x, dirToCamera.z);
+        this.forecastAnchor.rotation = new BABYLON.Vector3(0, angleY, 0);
+    }
+
     private updateOverlayAnchorPosition(): void {
         const camera = this.scene.activeCamera;
         if (!camera) return;
@@ -414,6 +573,50 @@ export class DiegeticUISystem extends System {
         waterBtn.onPointerClickObservable.add(() => {
             this.toggleWaterOverlay();
         });
+
+        // Soil Overlay (cycles N -> P -> K -> pH -> density -> off)
+        const soilPlane = BABYLON.MeshBuilder.CreatePlane("overlay_soil", {
+            width: 0.18,
+            height: 0.18
+        }, this.scene);
+        soilPlane.rotation.y = Math.PI;
+
+        const soilADT = GUI.AdvancedDynamicTexture.CreateForMesh(soilPlane, 512, 512);
+
+        const soilBg = new GUI.Rectangle();
+        soilBg.width = "100%";
+        soilBg.height = "100%";
+        soilBg.cornerRadius = 25;
+        soilBg.color = "white";
+        soilBg.thickness = 3;
+        soilBg.background = "rgba(90, 60, 40, 0.85)";
+        soilADT.addControl(soilBg);
+        this.soilOverlayBackground = soilBg;
+
+        const soilStack = new GUI.StackPanel();
+        soilBg.addControl(soilStack);
+
+        const soilIcon = new GUI.TextBlock();
+        soilIcon.text = "🧪";
+        soilIcon.fontSize = 160;
+        soilIcon.height = "250px";
+        soilStack.addControl(soilIcon);
+
+        const soilLabel = new GUI.TextBlock();
+        soilLabel.text = "Soil";
+        soilLabel.fontSize = 45;
+        soilLabel.color = "white";
+        soilLabel.height = "70px";
+        soilStack.addControl(soilLabel);
+        this.soilOverlayLabel = soilLabel;
+
+        const soilBtn = new GUI.MeshButton3D(soilPlane, "btn_overlay_soil");
+        this.overlayPanel.addControl(soilBtn);
+        soilPlane.receiveShadows = false;
+
+        soilBtn.onPointerClickObservable.add(() => {
+            this.cycleSoilOverlay();
+        });
     }
 
     private togglePlantOverlay(): void {
@@ -433,6 +636,10 @@ export class DiegeticUISystem extends System {
 
     private toggleWaterOverlay(): void {
         this.waterOverlayEnabled = !this.waterOverlayEnabled;
+        // The ground shows one heatmap at a time
+        if (this.waterOverlayEnabled && this.soilOverlay) {
+            this.setSoilOverlay(null);
+        }
 
         if (this.renderSystem) {
             this.renderSystem.setWaterOverlay(this.waterOverlayEnabled);
@@ -452,6 +659,35 @@ export class DiegeticUISystem extends System {
         }
     }
 
+    /**
+     * Step the ground heatmap through nitrogen, phosphorus, potassium, pH,
+     * density and off.
+     */
+    public cycleSoilOverlay(): void {
+        const index = this.soilOverlay ? SOIL_OVERLAYS.indexOf(this.soilOverlay) + 1 : 0;
+        if (index < SOIL_OVERLAYS.length && this.waterOverlayEnabled) {
+            this.toggleWaterOverlay();
+        }
+        this.setSoilOverlay(index < SOIL_OVERLAYS.length ? SOIL_OVERLAYS[index] : null);
+    }
+
+    private setSoilOverlay(overlay: SoilOverlay | null): void {
+        this.soilOverlay = overlay;
+        if (this.soilSystem) {
+            this.soilSystem.setSoilOverlay(overlay);
+        }
+
+        // Update button appearance
+        if (this.soilOverlayBackground) {
+            this.soilOverlayBackground.background = overlay
+                ? "rgba(190, 130, 60, 0.95)"
+                : "rgba(90, 60, 40, 0.85)";
+        }
+        if (this.soilOverlayLabel) {
+            this.soilOverlayLabel.text = overlay ? getSoilOverlayLabel(overlay) : "Soil";
+        }
+    }
+
     private createToolButtons(): void {
         for (const toolConfig of TOOLS) {
             const plane = BABYLON.MeshBuilder.CreatePlane(`mesh_${toolConfig.type}`, {
@@ -494,7 +730,7 @@ export class DiegeticUISystem extends System {
             this.toolButtons.set(toolConfig.type, button3D);
 
             button3D.onPointerClickObservable.add(() => {
-                this.toolManager.setTool(toolConfig.type);
+                this.toolManager.selectTool(toolConfig.type);
             });
 
             plane.receiveShadows = false;
@@ -567,7 +803,7 @@ export class DiegeticUISystem extends System {
             this.buildingButtons.set(buildingConfig.type, button3D);
 
             button3D.onPointerClickObservable.add(() => {
-                this.toolManager.setActiveBuilding(buildingConfig.type);
+                this.toolManager.selectBuilding(buildingConfig.type);
                 this.updateBuildingButtonStates();
             });
 
@@ -599,7 +835,7 @@ export class DiegeticUISystem extends System {
         }
     }
 
-    private updateBuildSubmenuPosition(): void {
+    private updateSubmenuPosition(anchor: BABYLON.TransformNode): void {
         const camera = this.scene.activeCamera;
         if (!camera) return;
 
@@ -611,12 +847,12 @@ export class DiegeticUISystem extends System {
         const uiPosition = cameraPosition.add(forward.scale(2.2));
         uiPosition.addInPlace(up.scale(-0.30)); // Above toolbar (toolbar is at -0.57)
 
-        this.buildSubmenuAnchor.position = uiPosition;
-        this.buildSubmenuAnchor.lookAt(cameraPosition);
+        anchor.position = uiPosition;
+        anchor.lookAt(cameraPosition);
     }
 
     private showBuildSubmenu(): void {
-        this.updateBuildSubmenuPosition();
+        this.updateSubmenuPosition(this.buildSubmenuAnchor);
         this.updateBuildingButtonStates();
         // Show each building button mesh
         for (const btn of this.buildingButtons.values()) {
@@ -635,6 +871,287 @@ export class DiegeticUISystem extends System {
         }
     }
 
+    private createAmendmentButtons(): void {
+        for (const type of Object.keys(AMENDMENTS) as AmendmentType[]) {
+            const amendment = AMENDMENTS[type];
+            const plane = BABYLON.MeshBuilder.CreatePlane(`mesh_amendment_${type}`, {
+                width: 0.2,
+                height: 0.2
+            }, this.scene);
+            plane.rotation.y = Math.PI;
+
+            const adt = GUI.AdvancedDynamicTexture.CreateForMesh(plane, 512, 512);
+
+            const background = new GUI.Rectangle();
+            background.width = "100%";
+            background.height = "100%";
+            background.cornerRadius = 30;
+            background.color = "white";
+            background.thickness = 3;
+            background.background = "rgba(60, 60, 100, 0.85)";
+            adt.addControl(background);
+            this.amendmentButtonBackgrounds.set(type, background);
+
+            const stack = new GUI.StackPanel();
+            background.addControl(stack);
+
+            const icon = new GUI.TextBlock();
+            icon.text = amendment.icon;
+            icon.fontSize = 150;
+            icon.height = "220px";
+            stack.addControl(icon);
+
+            const label = new GUI.TextBlock();
+            label.text = amendment.label;
+            label.fontSize = 50;
+            label.color = "white";
+            label.height = "70px";
+            stack.addControl(label);
+
+            // N-P-K ratio, e.g. "30-8-12", or the pH shift for lime and sulfur
+            const ratio = new GUI.TextBlock();
+            ratio.text = amendment.ph
+                ? `pH ${amendment.ph > 0 ? "+" : "−"}`
+                : NUTRIENTS.map(n => amendment.rates[n]).join("-");
+            ratio.fontSize = 40;
+            ratio.color = "#ccccdd";
+            ratio.height = "60px";
+            stack.addControl(ratio);
+
+            const button3D = new GUI.MeshButton3D(plane, `btn3d_amendment_${type}`);
+            this.amendSubmenuPanel.addControl(button3D);
+            this.amendmentButtons.set(type, button3D);
+
+            button3D.onPointerClickObservable.add(() => {
+                this.toolManager.selectAmendment(type);
+                this.updateAmendmentButtonStates();
+            });
+
+            plane.receiveShadows = false;
+        }
+    }
+
+    private updateAmendmentButtonStates(): void {
+        const activeAmendment = this.toolManager.getActiveAmendment();
+
+        for (const [type, btn3D] of this.amendmentButtons) {
+            const bg = this.amendmentButtonBackgrounds.get(type);
+            if (!bg) continue;
+
+            if (type === activeAmendment) {
+                bg.background = "rgba(80, 160, 220, 0.9)";
+                bg.color = "#aaddff";
+                btn3D.scaling = new BABYLON.Vector3(1.15, 1.15, 1.15);
+            } else {
+                bg.background = "rgba(60, 60, 100, 0.85)";
+                bg.color = "white";
+                btn3D.scaling = new BABYLON.Vector3(1.0, 1.0, 1.0);
+            }
+        }
+    }
+
+    private showAmendSubmenu(): void {
+        this.updateSubmenuPosition(this.amendSubmenuAnchor);
+        this.updateAmendmentButtonStates();
+        for (const btn of this.amendmentButtons.values()) {
+            btn.mesh?.setEnabled(true);
+        }
+    }
+
+    private hideAmendSubmenu(): void {
+        for (const btn of this.amendmentButtons.values()) {
+            btn.mesh?.setEnabled(false);
+        }
+    }
+
+    private createGroundButtons(): void {
+        for (const type of GROUND_TYPES) {
+            const ground = GROUND_DEFINITIONS[type];
+            const plane = BABYLON.MeshBuilder.CreatePlane(`mesh_ground_${type}`, {
+                width: 0.2,
+                height: 0.2
+            }, this.scene);
+            plane.rotation.y = Math.PI;
+
+            const adt = GUI.AdvancedDynamicTexture.CreateForMesh(plane, 512, 512);
+
+            const background = new GUI.Rectangle();
+            background.width = "100%";
+            background.height = "100%";
+            background.cornerRadius = 30;
+            background.color = "white";
+            background.thickness = 3;
+            background.background = "rgba(60, 60, 100, 0.85)";
+            adt.addControl(background);
+            this.groundButtonBackgrounds.set(type, background);
+
+            const stack = new GUI.StackPanel();
+            background.addControl(stack);
+
+            const icon = new GUI.TextBlock();
+            icon.text = ground.icon;
+            icon.fontSize = 150;
+            icon.height = "220px";
+            stack.addControl(icon);
+
+            const label = new GUI.TextBlock();
+            label.text = ground.label;
+            label.fontSize = 50;
+            label.color = "white";
+            label.height = "70px";
+            stack.addControl(label);
+
+            const note = new GUI.TextBlock();
+            note.text = ground.plantable ? "plantable" : "no planting";
+            note.fontSize = 40;
+            note.color = "#ccccdd";
+            note.height = "60px";
+            stack.addControl(note);
+
+            const button3D = new GUI.MeshButton3D(plane, `btn3d_ground_${type}`);
+            this.groundSubmenuPanel.addControl(button3D);
+            this.groundButtons.set(type, button3D);
+
+            button3D.onPointerClickObservable.add(() => {
+                this.toolManager.selectGround(type);
+                this.updateGroundButtonStates();
+            });
+
+            plane.receiveShadows = false;
+        }
+    }
+
+    private updateGroundButtonStates(): void {
+        const activeGround = this.toolManager.getActiveGround();
+
+        for (const [type, btn3D] of this.groundButtons) {
+            const bg = this.groundButtonBackgrounds.get(type);
+            if (!bg) continue;
+
+            if (type === activeGround) {
+                bg.background = "rgba(80, 160, 220, 0.9)";
+                bg.color = "#aaddff";
+                btn3D.scaling = new BABYLON.Vector3(1.15, 1.15, 1.15);
+            } else {
+                bg.background = "rgba(60, 60, 100, 0.85)";
+                bg.color = "white";
+                btn3D.scaling = new BABYLON.Vector3(1.0, 1.0, 1.0);
+            }
+        }
+    }
+
+    private showGroundSubmenu(): void {
+        this.updateSubmenuPosition(this.groundSubmenuAnchor);
+        this.updateGroundButtonStates();
+        for (const btn of this.groundButtons.values()) {
+            btn.mesh?.setEnabled(true);
+        }
+    }
+
+    private hideGroundSubmenu(): void {
+        for (const btn of this.groundButtons.values()) {
+            btn.mesh?.setEnabled(false);
+        }
+    }
+
+    private createForecastColumns(): void {
+        const background = new GUI.Rectangle();
+        background.width = "100%";
+        background.height = "100%";
+        background.cornerRadius = 20;
+        background.color = "white";
+        background.thickness = 2;
+        background.background = "rgba(20, 20, 40, 0.85)";
+        this.forecastADT.addControl(background);
+
+        const columns = new GUI.StackPanel();
+        columns.isVertical = false;
+        background.addControl(columns);
+
+        const addText = (panel: GUI.StackPanel, fontSize: number, height: string, color: string): GUI.TextBlock => {
+            const text = new GUI.TextBlock();
+            text.fontSize = fontSize;
+            text.height = height;
+            text.color = color;
+            panel.addControl(text);
+            return text;
+        };
+
+        for (let i = 0; i < FORECAST_DAYS; i++) {
+            const panel = new GUI.StackPanel();
+            panel.width = "116px";
+            columns.addControl(panel);
+
+            this.forecastColumns.push({
+                panel,
+                label: addText(panel, 24, "44px", "#aaaaff"),
+                icon: addText(panel, 44, "64px", "white"),
+                chance: addText(panel, 24, "40px", "#88bbff"),
+                temperatures: addText(panel, 24, "40px", "white"),
+            });
+        }
+    }
+
+    /**
+     * Refill the forecast columns when a new forecast is issued. Less certain
+     * days are drawn fainter.
+     */
+    private updateForecastPanel(): void {
+        const forecast = this.timeSystem?.getForecast() ?? null;
+        if (forecast === this.shownForecast) return;
+        this.shownForecast = forecast;
+
+        this.forecastColumns.forEach((column, i) => {
+            const day = forecast?.days[i];
+            column.panel.isVisible = !!day;
+            if (!day || !this.timeSystem) return;
+
+            const date = this.timeSystem.calendar.getDate(day.day);
+            column.label.text = day.leadDays === 0 ? "Today" : `${date.season.icon} ${date.dayOfSeason}`;
+            column.icon.text = WEATHER_STATES[day.weather].icon;
+            column.chance.text = `💧${Math.round(day.precipitationChance * 100)}%`;
+            column.temperatures.text = `${day.high}° / ${day.low}°`;
+            column.panel.alpha = 0.4 + 0.6 * day.confidence;
+        });
+    }
+
+    private createSpeedButton(name: string, label: string, onClick: () => void): GUI.Button {
+        const button = GUI.Button.CreateSimpleButton(name, label);
+        button.width = "56px";
+        button.height = "56px";
+        button.paddingLeft = "4px";
+        button.paddingRight = "4px";
+        button.cornerRadius = 12;
+        button.fontSize = 28;
+        button.color = "white";
+        button.thickness = 2;
+        button.background = "rgba(60, 60, 90, 0.85)";
+        button.onPointerClickObservable.add(onClick);
+        return button;
+    }
+
+    private updateTimeControls(): void {
+        if (!this.gameLoop) return;
+
+        const paused = this.gameLoop.isPaused();
+        const sleeping = this.timeSystem?.getIsSleeping() ?? false;
+        if (paused) {
+            this.speedText.text = "⏸ Paused";
+        } else if (sleeping) {
+            // Sleep acceleration multiplies the player speed
+            this.speedText.text = `💤 ${Math.round(this.gameLoop.getEffectiveTimeScale())}x`;
+        } else {
+            this.speedText.text = `▶ ${this.gameLoop.timeScale}x`;
+        }
+
+        this.pauseButton.background = paused ? "rgba(220, 160, 60, 0.95)" : "rgba(60, 60, 90, 0.85)";
+        for (const [preset, button] of this.speedButtons) {
+            button.background = !paused && this.gameLoop.timeScale === preset
+                ? "rgba(80, 180, 80, 0.95)"
+                : "rgba(60, 60, 90, 0.85)";
+        }
+    }
+
     private updateStatusHUD(): void {
         // Lazily resolve TimeSystem
         if (!this.timeSystem) {
@@ -647,10 +1164,11 @@ export class DiegeticUISystem extends System {
             const time = this.timeSystem.getFormattedTime();
             this.clockText.text = `${icon} ${time}`;
 
-            // Update Day
+            // Update Date
             const dayText = (this as any)._dayText as GUI.TextBlock | undefined;
             if (dayText) {
-                dayText.text = `Day ${this.timeSystem.getCurrentDay() + 1}`;
+                const date = this.timeSystem.getDate();
+                dayText.text = `${date.season.icon} ${date.season.name} ${date.dayOfSeason}\nYear ${date.year}`;
             }
         }
 
@@ -662,17 +1180,25 @@ export class DiegeticUISystem extends System {
                 this.seedText.text = `🌱 x${playerState.seeds}`;
             }
         }
+
+        this.updateTimeControls();
+        this.updateForecastPanel();
     }
 
     public update(_deltaTime: number): void {
         this.updateToolbarAnchorPosition();
         this.updateStatusAnchorPosition();
+        this.updateForecastAnchorPosition();
         this.updateOverlayAnchorPosition();
         this.updateStatusHUD();
 
         // Update build submenu position if Build tool is active
         if (this.toolManager.getTool() === "build") {
-            this.updateBuildSubmenuPosition();
+            this.updateSubmenuPosition(this.buildSubmenuAnchor);
+        } else if (this.toolManager.getTool() === "compost") {
+            this.updateSubmenuPosition(this.amendSubmenuAnchor);
+        } else if (this.toolManager.getTool() === "ground") {
+            this.updateSubmenuPosition(this.groundSubmenuAnchor);
         }
     }
 
@@ -757,6 +1283,9 @@ export class DiegeticUISystem extends System {
         this.statusAnchor.dispose();
         this.statusPlane.dispose();
         this.statusADT.dispose();
+        this.forecastAnchor.dispose();
+        this.forecastPlane.dispose();
+        this.forecastADT.dispose();
         this.tooltipPlane.dispose();
         this.tooltipADT.dispose();
         for (const adt of this.buttonADTs.values()) {
@@ -1,5 +1,5 @@
 
-import { Entity, System, SystemType, World } from "../core/ECS";
+import { Entity, System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
 import { PlantState } from "../components/PlantState";
 import { PlantGenome } from "../components/PlantGenome";
 import { Needs } from "../components/Needs";
@@ -8,15 +8,47 @@ import { DeadPlantState } from "../components/DeadPlantState";
 import { TimeSystem } from "./TimeSystem";
 import { SoilSystem } from "./SoilSystem";
 import { SpatialHashGrid } from "../core/SpatialHashGrid";
+import { Query } from "../core/Query";
+import type { PlantDeathCause } from "../core/Events";
+import { NUTRIENTS, Nutrient } from "../core/Nutrients";
+import { getPhGrowthFactor, getSpecies } from "../core/Species";
 import type { LightingSystem } from "./LightingSystem";
 
-// Root radius (in world units) by growth stage - exported for visualization
-export const ROOT_RADIUS: Record<string, number> = {
+// Full root radius (in world units) by growth stage, with enough phosphorus
+const ROOT_RADIUS: Record<string, number> = {
     sprout: 0.5,
     vegetative: 1.5,
     flowering: 2.5
 };
 
+// Nutrient buffers (0-100, starting at 50) at or above this have no ill effect
+const NUTRIENT_SUFFICIENT = 50;
+// Phosphorus-starved plants spread their roots less: the radius shrinks towards
+// this fraction as the phosphorus buffer falls from NUTRIENT_SUFFICIENT to 0
+const MIN_ROOT_SPREAD = 0.7;
+// Roots spread freely up to LOOSE_SOIL_DENSITY (g/cm³); compacted soil shrinks
+// the radius towards MIN_COMPACTED_SPREAD at COMPACTED_SOIL_DENSITY
+const LOOSE_SOIL_DENSITY = 1.4;
+const COMPACTED_SOIL_DENSITY = 1.8;
+const MIN_COMPACTED_SPREAD = 0.6;
+
+/**
+ * Root radius (in world units) for a stage, phosphorus buffer (0-100) and
+ * soil bulk density - exported for visualization.
+ */
+export function getRootRadius(stage: string, phosphorus: number, density: number = LOOSE_SOIL_DENSITY): number {
+    const sufficiency = Math.min(1, Math.max(0, phosphorus) / NUTRIENT_SUFFICIENT);
+    const compaction = Math.min(1, Math.max(0, (density - LOOSE_SOIL_DENSITY) / (COMPACTED_SOIL_DENSITY - LOOSE_SOIL_DENSITY)));
+    return (ROOT_RADIUS[stage] || 1.0)
+        * (MIN_ROOT_SPREAD + (1 - MIN_ROOT_SPREAD) * sufficiency)
+        * (1 - (1 - MIN_COMPACTED_SPREAD) * compaction);
+}
+
+// Soil temperatures (°C) below which plants take frost damage and above which
+// they take heat damage - exported for the inspector
+export const FROST_TEMPERATURE = 0;
+export const HEAT_STRESS_TEMPERATURE = 35;
+
 // Stage multipliers for dominance calculation (larger plants dominate)
 const STAGE_MULTIPLIER: Record<string, number> = {
     sprout: 1,
@@ -24,10 +56,24 @@ const STAGE_MULTIPLIER: Record<string, number> = {
     flowering: 3
 };
 
+// Nutrient uptake wanted per game-hour by stage, and buffer used per game-hour
+// at full sun. Bigger plants want more.
+const NUTRIENT_UPTAKE: Record<Nutrient, Record<string, number>> = {
+    nitrogen: { sprout: 0.5, vegetative: 1.5, flowering: 2.5 },
+    phosphorus: { sprout: 0.2, vegetative: 0.6, flowering: 1.0 },
+    potassium: { sprout: 0.3, vegetative: 1.0, flowering: 1.5 },
+};
+const NUTRIENT_METABOLISM: Record<Nutrient, number> = { nitrogen: 0.5, phosphorus: 0.2, potassium: 0.3 };
+
 export class GrowthSystem extends System {
+    public readonly name = "GrowthSystem";
+    // Plants absorb from soil that has already been updated this tick
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.SIMULATION, after: [SoilSystem] };
+
     private timeSystem: TimeSystem;
     private soilSystem: SoilSystem;
     private spatialHash: SpatialHashGrid;
+    private plants: Query<[typeof PlantState, typeof Needs, typeof TransformComponent]>;
     private lightingSystem: LightingSystem | null = null;
 
     // Sunlight cache to avoid expensive raycasts every tick
@@ -42,11 +88,24 @@ export class GrowthSystem extends System {
     // Time to reach full maturity (max iterations) in game-hours
     private readonly MATURITY_TIME = 24.0;
 
+    // Temperature damage (roots feel the soil temperature, so wet or shaded ground protects)
+    private readonly FROST_DAMAGE_RATE = 10; // Health per degree below freezing per game-hour
+    private readonly HEAT_DAMAGE_RATE = 3; // Health per degree over the limit per game-hour
+    private readonly HEALTH_RECOVERY_RATE = 2; // Health per game-hour at a comfortable temperature
+    private readonly HAIL_DAMAGE_RATE = 15; // Health per game-hour at full hail intensity
+
+    // Nutrient effects, scaling in as the buffer falls below NUTRIENT_SUFFICIENT
+    private readonly MIN_PHOSPHORUS_GROWTH = 0.5; // Growth towards and through flowering with no phosphorus
+    private readonly MAX_POTASSIUM_VULNERABILITY = 2; // Frost, heat and hail damage multiplier with no potassium
+
     constructor(world: World, timeSystem: TimeSystem, soilSystem: SoilSystem, spatialHash: SpatialHashGrid) {
         super(world, SystemType.FIXED);
         this.timeSystem = timeSystem;
         this.soilSystem = soilSystem;
         this.spatialHash = spatialHash;
+        this.plants = world.query(PlantState, Needs, TransformComponent).without(DeadPlantState);
+
+        this.world.events.on("entityDestroyed", ({ entity }) => this.removeFromCache(entity.id));
     }
 
     public setLightingSystem(lightingSystem: LightingSystem): void {
@@ -60,6 +119,14 @@ export class GrowthSystem extends System {
         this.sunlightCache.delete(entityId);
     }
 
+    /**
+     * Forget all cached sunlight values (used after loading a save).
+     */
+    public clearCache(): void {
+        this.sunlightCache.clear();
+        this.lastLightingUpdateHour = -1;
+    }
+
     /**
      * Clean up stale cache entries for entities that no longer exist
      */
@@ -72,11 +139,29 @@ export class GrowthSystem extends System {
     }
 
     public update(deltaTime: number): void {
-        const entities = this.world.getEntitiesWithComponent(PlantState);
+        this.simulate(deltaTime, this.lightingSystem);
+    }
+
+    /**
+     * Coarse step for offline catch-up (see CatchUpSimulation). Uses open-sky
+     * sunlight instead of shadow raycasts: the sun mesh isn't moved while
+     * catching up, and the cache would be stale afterwards anyway.
+     */
+    public updateCoarse(deltaTime: number): void {
+        this.simulate(deltaTime, null);
+    }
+
+    private simulate(deltaTime: number, lightingSystem: LightingSystem | null): void {
 
         // Convert real delta to in-game hours
         const gameHoursDelta = this.timeSystem.toGameTime(deltaTime);
 
+        // Plants grow faster in summer and barely at all in winter
+        const seasonalGrowthRate = this.timeSystem.getSeasonConditions().growthRate;
+        // Plants transpire faster in hot or windy air
+        const transpirationTemperatureFactor = this.soilSystem.getEvaporationFactor(this.timeSystem.getAirTemperature());
+        const weather = this.timeSystem.getWeather();
+
         // Calculate current game-hour (0-23, integer)
         const currentGameHour = Math.floor(this.timeSystem.getTimeOfDayFraction() * 24);
 
@@ -86,37 +171,30 @@ export class GrowthSystem extends System {
             this.lastLightingUpdateHour = currentGameHour;
             // Clean up stale cache entries for removed plants
             const currentEntityIds = new Set<number>();
-            for (const e of entities) {
+            for (const [e] of this.plants) {
                 currentEntityIds.add(e.id);
             }
             this.cleanupStaleEntries(currentEntityIds);
         }
 
-        for (const entity of entities) {
-            const state = entity.getComponent(PlantState);
-            const needs = entity.getComponent(Needs);
-            const transform = entity.getComponent(TransformComponent);
-            // Default genome if missing (backward compatibility)
-            let genome = entity.getComponent(PlantGenome);
-            if (!genome) {
-                // If existing plant has no genome, add default
-                genome = new PlantGenome();
-                entity.addComponent(genome);
+        for (const [entity, state, needs, transform] of this.plants) {
+            // Default genome if missing (backward compatibility), added after this system runs
+            if (!entity.hasComponent(PlantGenome)) {
+                this.world.commands.addComponent(entity.id, new PlantGenome());
             }
 
-            if (!state || !needs || !transform) continue;
-
             // Skip dead plants (but NOT coma plants - they need water processing for revival)
             if (state.health <= 0 && !state.inComa) continue;
 
             // (previousWater removed - no longer needed)
 
             // Get sunlight intensity using lazy cache update
-            let sunIntensity = 1.0;
-            if (this.lightingSystem) {
+            // (without a LightingSystem, e.g. headless, assume no shadows)
+            let sunIntensity = this.timeSystem.getOpenSkySunlight();
+            if (lightingSystem) {
                 // Only recalculate if it's a new game-hour OR we don't have a cached value
                 if (needsLightingRefresh || !this.sunlightCache.has(entity.id)) {
-                    sunIntensity = this.lightingSystem.getSunlightIntensity(transform.x, transform.z);
+                    sunIntensity = lightingSystem.getSunlightIntensity(transform.x, transform.z);
                     this.sunlightCache.set(entity.id, sunIntensity);
                 } else {
                     sunIntensity = this.sunlightCache.get(entity.id) ?? 1.0;
@@ -142,15 +220,24 @@ export class GrowthSystem extends System {
                 // Rate: Reach maturity in MATURITY_TIME hours of full sun
                 const MAX_GROWTH = 5;
                 if (state.growthProgress < MAX_GROWTH) {
+                    const previousStage = state.stage;
                     const growthRate = MAX_GROWTH / this.MATURITY_TIME;
-                    state.growthProgress += sunlitGrowth * growthRate;
+                    // Phosphorus drives growth from the vegetative stage on (budding and flowering)
+                    const phosphorusRate = state.stage === "sprout" ? 1 : this.MIN_PHOSPHORUS_GROWTH
+                        + (1 - this.MIN_PHOSPHORUS_GROWTH) * Math.min(1, needs.phosphorus / NUTRIENT_SUFFICIENT);
+                    // Soil outside the species' preferred pH slows growth
+                    const phRate = getPhGrowthFactor(getSpecies(state.speciesID), this.soilSystem.getPhAt(transform.x, transform.z));
+                    state.growthProgress += sunlitGrowth * growthRate * seasonalGrowthRate * phosphorusRate * phRate;
                     state.growthProgress = Math.min(MAX_GROWTH, state.growthProgress);
+                    if (state.stage !== previousStage) {
+                        this.world.events.emit("plantStageChanged", { entityId: entity.id, from: previousStage, to: state.stage });
+                    }
                 }
             }
 
             // --- Water Consumption from Soil with Competition ---
-            // Determine root radius based on growth stage
-            const rootRadius = ROOT_RADIUS[state.stage] || 1.0;
+            // Determine root radius based on growth stage, phosphorus and soil compaction
+            const rootRadius = getRootRadius(state.stage, needs.phosphorus, this.soilSystem.getDensityAt(transform.x, transform.z));
 
             // Calculate this plant's dominance score
             const myDominance = state.age * (STAGE_MULTIPLIER[state.stage] || 1);
@@ -167,16 +254,15 @@ export class GrowthSystem extends System {
             for (const neighborId of neighborIds) {
                 if (neighborId === entity.id) continue;
 
-                const otherEntity = this.world.getEntity(neighborId);
-                if (!otherEntity) continue;
-
-                const otherState = otherEntity.getComponent(PlantState);
-                const otherTransform = otherEntity.getComponent(TransformComponent);
+                const other = this.plants.get(neighborId);
+                if (!other) continue;
+                const [, otherState, otherNeeds, otherTransform] = other;
 
                 // Only compete with living plants
-                if (!otherState || !otherTransform || otherState.health <= 0) continue;
+                if (otherState.health <= 0) continue;
 
-                const otherRadius = ROOT_RADIUS[otherState.stage] || 1.0;
+                const otherRadius = getRootRadius(otherState.stage, otherNeeds.phosphorus,
+                    this.soilSystem.getDensityAt(otherTransform.x, otherTransform.z));
                 const dx = transform.x - otherTransform.x;
                 const dz = transform.z - otherTransform.z;
                 const distanceSq = dx * dx + dz * dz;
@@ -207,10 +293,6 @@ export class GrowthSystem extends System {
             const waterNeedPerHour = state.stage === "flowering" ? 5 : state.stage === "vegetative" ? 3 : 1;
             const waterWanted = waterNeedPerHour * gameHoursDelta;
 
-            // Nitrogen needs
-            const nitrogenNeedPerHour = state.stage === "flowering" ? 2.5 : state.stage === "vegetative" ? 1.5 : 0.5;
-            const nitrogenWanted = nitrogenNeedPerHour * gameHoursDelta;
-
             // Apply competition penalty to water absorption
             const effectiveWaterWanted = waterWanted * (1 - competitionPenalty);
 
@@ -227,34 +309,51 @@ export class GrowthSystem extends System {
             needs.water = Math.min(100, needs.water + absorbed);
             needs.lastAbsorption = absorbed; // Store for visualization
 
-            // Apply competition to nitrogen too?
-            const effectiveNitrogenWanted = nitrogenWanted * (1 - competitionPenalty);
-            const realAbsorbedNitrogen = this.soilSystem.absorbNitrogen(
-                transform.x,
-                transform.z,
-                rootRadius,
-                effectiveNitrogenWanted
-            );
-
-            needs.nitrogen = Math.min(100, needs.nitrogen + realAbsorbedNitrogen);
-            needs.lastNitrogenAbsorption = realAbsorbedNitrogen;
-
+            // Nutrients are shared out the same way as water
+            for (const nutrient of NUTRIENTS) {
+                const wanted = NUTRIENT_UPTAKE[nutrient][state.stage] * gameHoursDelta * (1 - competitionPenalty);
+                const absorbedNutrient = this.soilSystem.absorbNutrient(nutrient, transform.x, transform.z, rootRadius, wanted);
+                needs[nutrient] = Math.min(100, needs[nutrient] + absorbedNutrient);
+                if (nutrient === "nitrogen") needs.lastNitrogenAbsorption = absorbedNutrient;
+            }
 
             // Natural water usage/transpiration (modified by sunlight - less transpiration in shade)
             const transpirationMultiplier = this.SHADE_GROWTH_MULTIPLIER + (1 - this.SHADE_GROWTH_MULTIPLIER) * sunIntensity;
-            const transpiration = gameHoursDelta * 1.5 * transpirationMultiplier; // Lose 1.5% per game-hour at full sun
+            const transpiration = gameHoursDelta * 1.5 * transpirationMultiplier * transpirationTemperatureFactor; // Lose 1.5% per game-hour at full sun and 20°C
             needs.water = Math.max(0, needs.water - transpiration);
 
-            // Nitrogen metabolism (slower than water)
-            const nitrogenMetabolism = gameHoursDelta * 0.5 * transpirationMultiplier;
-            needs.nitrogen = Math.max(0, needs.nitrogen - nitrogenMetabolism);
+            // Nutrient metabolism (slower than water)
+            for (const nutrient of NUTRIENTS) {
+                const metabolism = gameHoursDelta * NUTRIENT_METABOLISM[nutrient] * transpirationMultiplier;
+                needs[nutrient] = Math.max(0, needs[nutrient] - metabolism);
+            }
 
             // (isDirty checks removed - static mesh scaling doesn't need regeneration triggers)
 
+            // Frost, heat and hail damage health; it recovers at comfortable temperatures.
+            // Potassium-starved plants take more of the damage.
+            const temperature = this.soilSystem.getTemperatureAt(transform.x, transform.z);
+            const hail = weather.precipitationType === "hail" ? weather.precipitation : 0;
+            const vulnerability = 1 + (this.MAX_POTASSIUM_VULNERABILITY - 1) * (1 - Math.min(1, needs.potassium / NUTRIENT_SUFFICIENT));
+            if (hail > 0) {
+                state.health -= hail * this.HAIL_DAMAGE_RATE * vulnerability * gameHoursDelta;
+            }
+            if (temperature < FROST_TEMPERATURE) {
+                state.health -= (FROST_TEMPERATURE - temperature) * this.FROST_DAMAGE_RATE * vulnerability * gameHoursDelta;
+            } else if (temperature > HEAT_STRESS_TEMPERATURE) {
+                state.health -= (temperature - HEAT_STRESS_TEMPERATURE) * this.HEAT_DAMAGE_RATE * vulnerability * gameHoursDelta;
+            } else if (hail <= 0) {
+                state.health = Math.min(100, state.health + this.HEALTH_RECOVERY_RATE * gameHoursDelta);
+            }
+
             // Death logic - only kill if not in sprout stage and critically dehydrated
             if (needs.water < 5 && state.stage !== "sprout") {
                 // Convert to dead plant instead of just setting health = 0
-                this.convertToDeadPlant(entity, state);
+                this.convertToDeadPlant(entity, state, "drought");
+            } else if (state.health <= 0) {
+                state.health = 0;
+                const cause = temperature < FROST_TEMPERATURE ? "frost" : temperature > HEAT_STRESS_TEMPERATURE ? "heat" : "hail";
+                this.convertToDeadPlant(entity, state, cause);
             }
         }
     }
@@ -262,21 +361,22 @@ export class GrowthSystem extends System {
     /**
      * Convert a living plant entity into a dead plant entity
      */
-    private convertToDeadPlant(entity: Entity, state: PlantState): void {
-        // Remove living plant components
-        entity.removeComponent(PlantState);
-        entity.removeComponent(Needs);
-        entity.removeComponent(PlantGenome); // Also remove genome for dead plant? Or keep it? DeadPlantState stores "originalStage" string.
-
-        // Add dead plant component
-        const deadPlantState = new DeadPlantState(state.stage);
-        entity.addComponent(deadPlantState);
-
-        // Clean up cache and spatial hash
+    private convertToDeadPlant(entity: Entity, state: PlantState, cause: PlantDeathCause): void {
+        // Swap living plant components for a dead plant (applied after this system runs)
+        const commands = this.world.commands;
+        commands.removeComponent(entity.id, PlantState);
+        commands.removeComponent(entity.id, Needs);
+        commands.removeComponent(entity.id, PlantGenome); // Dead plants only need their stage, which DeadPlantState keeps
+        commands.addComponent(entity.id, new DeadPlantState(state.stage));
+
+        // Clean up cache and spatial hash now so no other plant competes with it this tick
         this.removeFromCache(entity.id);
         this.spatialHash.remove(entity.id);
 
-        console.log(`Plant ${entity.id} died and is now decomposing`);
+        const transform = entity.getComponent(TransformComponent);
+        this.world.events.emit("plantDied", { entityId: entity.id, stage: state.stage, x: transform?.x ?? 0, z: transform?.z ?? 0, cause });
+
+        console.log(`Plant ${entity.id} died (${cause}) and is now decomposing`);
     }
 }
 
@@ -1,19 +1,29 @@
-import { Entity, System, SystemType, World } from "../core/ECS";
+import { EntityID, System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
 import { Engine } from "../core/Engine";
 import { SpatialHashGrid } from "../core/SpatialHashGrid";
 import { TransformComponent } from "../components/TransformComponent";
 import { PlantState } from "../components/PlantState";
-import { PlantGenome } from "../components/PlantGenome";
-import { BuildingState } from "../components/BuildingState";
 import { Needs } from "../components/Needs";
 import { PlayerState } from "../components/PlayerState";
 import { ToolManager } from "../ui/ToolManager";
 import { SoilSystem } from "./SoilSystem";
+import { CommandSystem } from "./CommandSystem";
 import { DiegeticUISystem } from "./DiegeticUISystem";
-import { ROOT_RADIUS } from "./GrowthSystem";
+import { FROST_TEMPERATURE, HEAT_STRESS_TEMPERATURE, getRootRadius } from "./GrowthSystem";
+import { AMENDMENTS, NUTRIENTS, NUTRIENT_DEFINITIONS, getNutrientAvailability } from "../core/Nutrients";
+import { getPhGrowthFactor, getSpecies } from "../core/Species";
+import { GROUND_DEFINITIONS } from "../core/Ground";
+import { SOIL_TEXTURE_DEFINITIONS } from "../core/SoilTexture";
+import { TimeSystem } from "./TimeSystem";
 import * as BABYLON from "@babylonjs/core";
 
+// HUD panels in front of the garden (time controls, forecast); clicks on them aren't garden clicks
+const HUD_PLANES = new Set(["status_plane", "forecast_plane"]);
+
 export class InputSystem extends System {
+    public readonly name = "InputSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.INPUT };
+
     private scene: BABYLON.Scene;
     private spatialHash: SpatialHashGrid;
     private toolManager: ToolManager;
@@ -24,23 +34,23 @@ export class InputSystem extends System {
     private isValidPlacement: boolean = false;
     private isWaterSpraying: boolean = false;
     private isCompostApplying: boolean = false;
-    private readonly PLANT_RADIUS = 1.0;
-    private readonly BUILDING_RADIUS = 0.8;
-    private readonly SPRAY_RATE = 150; // Moisture per second when spraying
-    private readonly SPRAY_RADIUS = 1.5; // Spray cone radius
+    private isGroundPainting: boolean = false;
+    private stroke: number = 0; // Counts presses so a held spray/compost/paint undoes as one step
 
     private tooltipEl: HTMLElement | null;
     private soilSystem: SoilSystem;
-    private playerEntity: Entity | null = null;
+    private commandSystem: CommandSystem;
+    private playerEntityId: EntityID;
     private diegeticUI: DiegeticUISystem | null = null;
 
-    constructor(world: World, spatialHash: SpatialHashGrid, toolManager: ToolManager, soilSystem: SoilSystem, playerEntity: Entity) {
+    constructor(world: World, spatialHash: SpatialHashGrid, toolManager: ToolManager, soilSystem: SoilSystem, commandSystem: CommandSystem, playerEntityId: EntityID) {
         super(world, SystemType.RENDER);
         this.scene = Engine.getInstance().getScene();
         this.spatialHash = spatialHash;
         this.toolManager = toolManager;
         this.soilSystem = soilSystem;
-        this.playerEntity = playerEntity;
+        this.commandSystem = commandSystem;
+        this.playerEntityId = playerEntityId;
         this.tooltipEl = document.getElementById("tooltip");
 
         // Create cursor mesh
@@ -91,22 +101,39 @@ export class InputSystem extends System {
         this.diegeticUI = diegeticUI;
     }
 
+    /**
+     * Pointer handlers only translate clicks into commands; CommandSystem
+     * applies them on the next fixed tick.
+     */
     private setupInput(): void {
         this.scene.onPointerDown = (evt, pickResult) => {
+            // Clicks on the HUD panels belong to the HUD, not the garden
+            if (pickResult?.pickedMesh && HUD_PLANES.has(pickResult.pickedMesh.name)) return;
+
             const tool = this.toolManager.getTool();
+            const { x, z } = this.cursorPosition;
 
             if (tool === "plant" && evt.button === 0 && this.isValidPlacement) {
-                this.plantAt(this.cursorPosition.x, this.cursorPosition.z);
+                this.commandSystem.dispatch({ type: "plant", x, z });
             } else if (tool === "build" && evt.button === 0 && this.isValidPlacement) {
-                this.buildAt(this.cursorPosition.x, this.cursorPosition.z);
+                this.commandSystem.dispatch({ type: "build", building: this.toolManager.getActiveBuilding(), x, z });
             } else if (tool === "water" && evt.button === 0) {
                 // Start spraying water
                 this.isWaterSpraying = true;
+                this.stroke++;
             } else if (tool === "compost" && evt.button === 0) {
                 // Start applying compost
                 this.isCompostApplying = true;
+                this.stroke++;
+            } else if (tool === "ground" && evt.button === 0) {
+                // Start painting ground
+                this.isGroundPainting = true;
+                this.stroke++;
             } else if (tool === "harvest" && evt.button === 0 && pickResult?.pickedMesh) {
-                this.harvestAt(pickResult.pickedMesh);
+                const mesh = pickResult.pickedMesh;
+                if (mesh.name.startsWith("plant_") && mesh.metadata?.entityId !== undefined) {
+                    this.commandSystem.dispatch({ type: "harvest", entityId: mesh.metadata.entityId });
+                }
             }
         };
 
@@ -114,13 +141,15 @@ export class InputSystem extends System {
             if (evt.button === 0) {
                 this.isWaterSpraying = false;
                 this.isCompostApplying = false;
+                this.isGroundPainting = false;
                 if (this.waterSprayMesh) this.waterSprayMesh.isVisible = false;
             }
         };
     }
 
     private getPlayerState(): PlayerState | undefined {
-        return this.playerEntity?.getComponent(PlayerState);
+        // Looked up by ID each time so it stays valid after a save is loaded
+        return this.world.getEntity(this.playerEntityId)?.getComponent(PlayerState);
     }
 
     private handleToolChange(tool: string | null): void {
@@ -130,9 +159,9 @@ export class InputSystem extends System {
         const mouseInput = camera.inputs.attached["mouse"] as BABYLON.FreeCameraMouseInput;
         const canvas = this.scene.getEngine().getRenderingCanvas();
 
-        // Tools that need left-click free for interaction (water, compost, inspect, harvest)
+        // Tools that need left-click free for interaction (water, compost, inspect, harvest, ground)
         // Switch camera rotation to Right Mouse Button (2) to free up Left Mouse Button (0)
-        if (tool === "water" || tool === "compost" || tool === "inspect" || tool === "harvest") {
+        if (tool === "water" || tool === "compost" || tool === "inspect" || tool === "harvest" || tool === "ground") {
             mouseInput.buttons = [2];
 
             // Prevent context menu when using right click for camera
@@ -153,88 +182,6 @@ export class InputSystem extends System {
         }
     }
 
-    private plantAt(x: number, z: number): void {
-        const playerState = this.getPlayerState();
-        if (!playerState || playerState.seeds <= 0) {
-            console.log("No seeds available!");
-            return;
-        }
-
-        // Consume a seed
-        playerState.seeds--;
-        this.updateSeedDisplay();
-
-        const entity = this.world.createEntity();
-        entity.addComponent(new TransformComponent(x, 0.5, z));
-
-        const plantState = new PlantState();
-        // plantState.stage is now a getter, implicit start at iteration 0 (sprout)
-        entity.addComponent(plantState);
-
-        // Add Genome for L-System growth
-        const genome = new PlantGenome();
-        // Default genome is adequate, or we could customize here based on species
-        entity.addComponent(genome);
-
-        const needs = new Needs();
-        needs.water = 100;
-        entity.addComponent(needs);
-
-        this.spatialHash.add(entity.id, x, z);
-
-        console.log(`Planted entity ${entity.id} at (${x.toFixed(2)}, ${z.toFixed(2)}). Seeds remaining: ${playerState.seeds}`);
-    }
-
-    private harvestAt(mesh: BABYLON.AbstractMesh): void {
-        if (!mesh.name.startsWith("plant_") || mesh.metadata?.entityId === undefined) {
-            return;
-        }
-
-        const entity = this.world.getEntity(mesh.metadata.entityId);
-        if (!entity) return;
-
-        const plantState = entity.getComponent(PlantState);
-        const transform = entity.getComponent(TransformComponent);
-        if (!plantState || !transform) return;
-
-        // Can't harvest dead plants
-        if (plantState.health <= 0) {
-            console.log("Cannot harvest dead plant!");
-            return;
-        }
-
-        // Determine seed reward based on stage
-        let seedReward = 0;
-        if (plantState.stage === "flowering") {
-            seedReward = 2; // Mature plants give 2 seeds
-        } else if (plantState.stage === "vegetative" || plantState.stage === "sprout") {
-            seedReward = 1; // Early stages give 1 seed
-        }
-
-        // Add seeds to player
-        const playerState = this.getPlayerState();
-        if (playerState) {
-            playerState.seeds += seedReward;
-            this.updateSeedDisplay();
-        }
-
-        // Remove plant from spatial hash
-        this.spatialHash.remove(entity.id);
-
-        // Remove entity from world
-        this.world.removeEntity(entity.id);
-
-        console.log(`Harvested plant #${entity.id} (stage: ${plantState.stage}), got ${seedReward} seeds. Total: ${playerState?.seeds}`);
-    }
-
-    private updateSeedDisplay(): void {
-        const seedDisplay = document.getElementById("seed-display");
-        const playerState = this.getPlayerState();
-        if (seedDisplay && playerState) {
-            seedDisplay.textContent = `🌱 ${playerState.seeds}`;
-        }
-    }
-
     public update(deltaTime: number): void {
         const tool = this.toolManager.getTool();
 
@@ -247,11 +194,11 @@ export class InputSystem extends System {
             this.cursorMesh.isVisible = false;
         }
 
-        // Raycast - exclude 3D UI meshes (toolbar buttons, status panel, labels)
+        // Raycast - exclude 3D UI meshes (toolbar buttons, HUD panels, labels)
         const pickResult = this.scene.pick(this.scene.pointerX, this.scene.pointerY, (mesh) => {
             // Exclude 3D UI elements from picking
             if (mesh.name.startsWith("mesh_") || mesh.name.startsWith("btn3d_") ||
-                mesh.name === "status_plane" || mesh.name.startsWith("label_") ||
+                HUD_PLANES.has(mesh.name) || mesh.name.startsWith("label_") ||
                 mesh.name.startsWith("inspect_")) {
                 return false;
             }
@@ -288,11 +235,14 @@ export class InputSystem extends System {
             this.handleInspectMode(pickResult);
         } else if (tool === "compost") {
             this.rootZoneMesh.isVisible = false;
-            this.handleCompostMode(pickResult);
+            this.handleCompostMode(pickResult, deltaTime);
         } else if (tool === "harvest") {
             this.rootZoneMesh.isVisible = false;
             if (this.soilSystem) this.soilSystem.showHighlight(0, 0, false);
             this.handleHarvestMode(pickResult);
+        } else if (tool === "ground") {
+            this.rootZoneMesh.isVisible = false;
+            this.handleGroundMode(pickResult);
         } else {
             this.rootZoneMesh.isVisible = false;
             this.hideTooltip();
@@ -310,11 +260,12 @@ export class InputSystem extends System {
 
         const playerState = this.getPlayerState();
         const hasSeeds = !!(playerState && playerState.seeds > 0);
+        const plantable = this.soilSystem.isPlantableAt(this.cursorPosition.x, this.cursorPosition.z);
 
-        this.isValidPlacement = hasSeeds && !this.spatialHash.hasNearby(
+        this.isValidPlacement = hasSeeds && plantable && !this.spatialHash.hasNearby(
             this.cursorPosition.x,
             this.cursorPosition.z,
-            this.PLANT_RADIUS
+            this.commandSystem.PLANT_RADIUS
         );
 
         const mat = this.cursorMesh.material as BABYLON.StandardMaterial;
@@ -334,6 +285,14 @@ export class InputSystem extends System {
                 this.scene.pointerX,
                 this.scene.pointerY
             );
+        } else if (!plantable) {
+            const { icon, label } = GROUND_DEFINITIONS[this.soilSystem.getGroundAt(this.cursorPosition.x, this.cursorPosition.z)];
+            this.showTooltip(
+                `<div class="tooltip-title">${icon} ${label}</div>
+                <div class="tooltip-row"><span class="tooltip-value">Nothing can be planted here</span></div>`,
+                this.scene.pointerX,
+                this.scene.pointerY
+            );
         } else {
             this.hideTooltip();
         }
@@ -404,85 +363,7 @@ export class InputSystem extends System {
             const sprayMat = this.waterSprayMesh.material as BABYLON.StandardMaterial;
             sprayMat.alpha = 0.3 + 0.2 * Math.sin(Date.now() * 0.01);
 
-            // Apply water to all cells within the spray cone radius
-            // We want to add moisture proportional to the amount the square is covered
-
-            // Grid cell size from SoilSystem (should ideally be public or constant there, assuming 1.0 for now if not accessible)
-            const CELL_SIZE = 1.0;
-
-            // Determine range of cells to check
-            const startX = Math.floor((pos.x - this.SPRAY_RADIUS) / CELL_SIZE);
-            const endX = Math.floor((pos.x + this.SPRAY_RADIUS) / CELL_SIZE);
-            const startZ = Math.floor((pos.z - this.SPRAY_RADIUS) / CELL_SIZE);
-            const endZ = Math.floor((pos.z + this.SPRAY_RADIUS) / CELL_SIZE);
-
-            // Previous code: moisturePerSpot = (this.SPRAY_RATE * deltaTime) / this.SPRAY_PARTICLES;
-            // It applied `moisturePerSpot` to 5 random spots.
-            // So Total Moisture added per frame = SPRAY_RATE * deltaTime.
-
-            // Let's assume SPRAY_RATE is the peak intensity at the center.
-            // Or better, let's try to match the previous "Total Volume" but spread it out smoothly.
-            // But user said "triple the rate" then "5x it", implying they want it POTENT.
-            // If we spread 150 units over a 1.5 radius circle (Area ~7), the intensity might be low?
-            // Let's assume SPRAY_RATE is the max amount added to a fully covered cell per second.
-
-            for (let cx = startX; cx <= endX; cx++) {
-                for (let cz = startZ; cz <= endZ; cz++) {
-                    const cellCenterWorldX = cx * CELL_SIZE + CELL_SIZE / 2;
-                    const cellCenterWorldZ = cz * CELL_SIZE + CELL_SIZE / 2;
-
-                    // Distance from spray center to cell center
-                    const dist = Math.sqrt(Math.pow(cellCenterWorldX - pos.x, 2) + Math.pow(cellCenterWorldZ - pos.z, 2));
-
-                    if (dist < this.SPRAY_RADIUS + CELL_SIZE) { // simple check first
-                        // Calculate coverage factor (0 to 1)
-                        // A simple linear falloff or hard cut?
-                        // "Proportional to amount square is covered"
-                        // Exact square-circle intersection is expensive.
-                        // Let's approximate:
-                        // If center is inside R, it's mostly covered.
-                        // Let's use a smooth falloff: 1.0 at center, 0 at Radius.
-                        // But users usually mean "Everything inside gets water".
-                        // Let's use a "Clamped linear falloff" where inner 50% is 1.0, then drops to 0 at edge?
-                        // Or just "Intersection Area Approximation".
-
-                        // Simple circle vs point-in-radius check for now, weighted by distance to simulate coverage at edges
-                        const range = this.SPRAY_RADIUS;
-                        if (dist < range) {
-                            // Inside. Percentage?
-                            // Let's imply that "amount covered" relates to how close it is.
-                            // Actually, let's treat the spray as having a uniform intensity within the cone.
-                            // The "coverage" aspect means edge cells get less.
-                            // Approximate intersection of square and circle:
-                            // If dist + cellRadius <= range -> 100% covered.
-                            // If dist - cellRadius >= range -> 0% covered.
-                            // Linear interp in between.
-
-                            let factor = 0;
-                            if (dist <= range - CELL_SIZE / 2) {
-                                factor = 1.0;
-                            } else if (dist >= range + CELL_SIZE / 2) {
-                                factor = 0.0;
-                            } else {
-                                // Edge case
-                                factor = 1.0 - (dist - (range - CELL_SIZE / 2)) / CELL_SIZE;
-                            }
-
-                            // Clamp factor
-                            factor = Math.max(0, Math.min(1, factor));
-
-                            if (factor > 0) {
-                                const moistureToAdd = this.SPRAY_RATE * deltaTime * factor;
-                                // We use modifyMoistureAt which takes world coords, but we have cell indices.
-                                // SoilSystem needs world coords or we can access via integer.
-                                // But modifyMoistureAt converts input world coords to integer.
-                                // So passing cell center is fine.
-                                this.soilSystem.modifyMoistureAt(cellCenterWorldX, cellCenterWorldZ, moistureToAdd);
-                            }
-                        }
-                    }
-                }
-            }
+            this.commandSystem.dispatch({ type: "sprayWater", x: pos.x, z: pos.z, duration: deltaTime, stroke: this.stroke });
         }
 
         // Show highlight under cursor
@@ -501,26 +382,35 @@ export class InputSystem extends System {
         );
     }
 
-    private handleCompostMode(pickResult: BABYLON.PickingInfo): void {
+    private handleCompostMode(pickResult: BABYLON.PickingInfo, deltaTime: number): void {
         const pos = pickResult.pickedPoint;
         if (!pos || !this.soilSystem) return;
 
         // Show highlight under cursor
         this.soilSystem.showHighlight(pos.x, pos.z, true);
 
-        // Apply nitrogen when holding mouse button
+        // Apply the chosen amendment when holding mouse button
+        const amendment = this.toolManager.getActiveAmendment();
         if (this.isCompostApplying) {
-            this.soilSystem.modifyNitrogenAt(pos.x, pos.z, 0.5); // Slower rate than water
+            this.commandSystem.dispatch({ type: "applyCompost", x: pos.x, z: pos.z, duration: deltaTime, stroke: this.stroke, amendment });
         }
 
-        // Show tooltip with nitrogen info
-        const nitrogen = this.soilSystem.getNitrogenAt(pos.x, pos.z);
+        // Show tooltip with nutrient info
+        const nutrientRows = NUTRIENTS.map(nutrient => {
+            const amount = this.soilSystem.getNutrientAt(nutrient, pos.x, pos.z);
+            return `<div class="tooltip-row"><span class="tooltip-label">${NUTRIENT_DEFINITIONS[nutrient].label}:</span><span class="tooltip-value">${amount.toFixed(0)}%</span></div>`;
+        }).join("");
         const moisture = this.soilSystem.getMoistureAt(pos.x, pos.z);
+        const ph = this.soilSystem.getPhAt(pos.x, pos.z);
+        const density = this.soilSystem.getDensityAt(pos.x, pos.z);
         const actionText = this.isCompostApplying ? "Applying..." : "Hold to apply";
+        const { icon, label } = AMENDMENTS[amendment];
 
         this.showTooltip(
-            `<div class="tooltip-title">🧪 Compost</div>
-            <div class="tooltip-row"><span class="tooltip-label">Nitrogen:</span><span class="tooltip-value">${nitrogen.toFixed(0)}%</span></div>
+            `<div class="tooltip-title">${icon} ${label}</div>
+            ${nutrientRows}
+            <div class="tooltip-row"><span class="tooltip-label">pH:</span><span class="tooltip-value">${ph.toFixed(1)}</span></div>
+            <div class="tooltip-row"><span class="tooltip-label">Density:</span><span class="tooltip-value">${density.toFixed(2)} g/cm³</span></div>
             <div class="tooltip-row"><span class="tooltip-label">Moisture:</span><span class="tooltip-value">${moisture.toFixed(0)}%</span></div>
             <div class="tooltip-row"><span class="tooltip-label">Action:</span><span class="tooltip-value">${actionText}</span></div>`,
             this.scene.pointerX,
@@ -528,6 +418,32 @@ export class InputSystem extends System {
         );
     }
 
+    private handleGroundMode(pickResult: BABYLON.PickingInfo): void {
+        const pos = pickResult.pickedPoint;
+        if (!pos || !this.soilSystem) return;
+
+        // Show highlight under cursor
+        this.soilSystem.showHighlight(pos.x, pos.z, true);
+
+        // Paint the chosen ground type when holding mouse button
+        const ground = this.toolManager.getActiveGround();
+        if (this.isGroundPainting) {
+            this.commandSystem.dispatch({ type: "paintGround", x: pos.x, z: pos.z, ground, stroke: this.stroke });
+        }
+
+        const current = GROUND_DEFINITIONS[this.soilSystem.getGroundAt(pos.x, pos.z)];
+        const actionText = this.isGroundPainting ? "Painting..." : "Hold to paint";
+        const { icon, label } = GROUND_DEFINITIONS[ground];
+
+        this.showTooltip(
+            `<div class="tooltip-title">${icon} ${label}</div>
+            <div class="tooltip-row"><span class="tooltip-label">Ground:</span><span class="tooltip-value">${current.icon} ${current.label}</span></div>
+            <div class="tooltip-row"><span class="tooltip-label">Action:</span><span class="tooltip-value">${actionText}</span></div>`,
+            this.scene.pointerX,
+            this.scene.pointerY
+        );
+    }
+
     private handleInspectMode(pickResult: BABYLON.PickingInfo): void {
         const mesh = pickResult.pickedMesh;
 
@@ -541,7 +457,7 @@ export class InputSystem extends System {
 
                 if (state && needs && transform) {
                     // Show root zone visualization
-                    const rootRadius = ROOT_RADIUS[state.stage] || 1.0;
+                    const rootRadius = getRootRadius(state.stage, needs.phosphorus, this.soilSystem.getDensityAt(transform.x, transform.z));
                     this.rootZoneMesh.position.set(transform.x, 0.02, transform.z); // Just above ground
                     this.rootZoneMesh.scaling.set(rootRadius, rootRadius, rootRadius);
                     this.rootZoneMesh.isVisible = true;
@@ -565,8 +481,11 @@ export class InputSystem extends System {
                     const rows: Array<{ label: string; value: string; color?: string }> = [
                         { label: "Stage:", value: state.stage },
                         { label: "Age:", value: ageDisplay },
-                        { label: "Health:", value: state.health > 0 ? "Alive" : "Dead", color: state.health > 0 ? "#88ff88" : "#ff8888" },
+                        { label: "Health:", value: `${state.health.toFixed(0)}%`, color: state.health > 60 ? "#88ff88" : state.health > 30 ? "#ffcc66" : "#ff8888" },
                         { label: "Water:", value: `${needs.water.toFixed(0)}%` },
+                        { label: "🧪 N/P/K:", value: NUTRIENTS.map(n => needs[n].toFixed(0)).join(" / "), color: NUTRIENTS.some(n => needs[n] < 20) ? "#ffaa66" : undefined },
+                        this.temperatureRow("🌡️ Root Temp:", this.soilSystem.getTemperatureAt(transform.x, transform.z)),
+                        this.plantPhRow(state.speciesID, this.soilSystem.getPhAt(transform.x, transform.z)),
                         { label: "🌱 Root Zone:", value: `${rootRadius.toFixed(1)}m` },
                     ];
 
@@ -608,13 +527,36 @@ export class InputSystem extends System {
             const pos = pickResult.pickedPoint;
             if (pos && this.soilSystem) {
                 const moisture = this.soilSystem.getMoistureAt(pos.x, pos.z);
-                const nitrogen = this.soilSystem.getNitrogenAt(pos.x, pos.z);
+
+                const ground = GROUND_DEFINITIONS[this.soilSystem.getGroundAt(pos.x, pos.z)];
+                const texture = SOIL_TEXTURE_DEFINITIONS[this.soilSystem.getSoilTextureAt(pos.x, pos.z)];
+                const { clay, silt, sand } = this.soilSystem.getTextureFractionsAt(pos.x, pos.z);
 
                 const rows: Array<{ label: string; value: string; color?: string }> = [
                     { label: "Position:", value: `(${pos.x.toFixed(1)}, ${pos.z.toFixed(1)})` },
+                    { label: `${ground.icon} Ground:`, value: ground.label },
+                    { label: "Texture:", value: `${texture.label} (${(clay * 100).toFixed(0)}% clay, ${(silt * 100).toFixed(0)}% silt, ${(sand * 100).toFixed(0)}% sand)` },
                     { label: "Moisture:", value: `${moisture.toFixed(0)}%`, color: moisture > 60 ? "#66aaff" : moisture < 30 ? "#ffaa66" : undefined },
-                    { label: "Nitrogen:", value: `${nitrogen.toFixed(0)}%`, color: nitrogen > 50 ? "#88ff88" : nitrogen < 20 ? "#ffaa66" : undefined },
+                    ...NUTRIENTS.map(nutrient => {
+                        const amount = this.soilSystem.getNutrientAt(nutrient, pos.x, pos.z);
+                        return { label: `${NUTRIENT_DEFINITIONS[nutrient].label}:`, value: `${amount.toFixed(0)}%`, color: amount > 50 ? "#88ff88" : amount < 20 ? "#ffaa66" : undefined };
+                    }),
+                    this.soilPhRow(this.soilSystem.getPhAt(pos.x, pos.z)),
+                    this.densityRow(this.soilSystem.getDensityAt(pos.x, pos.z)),
+                    { label: "Slope:", value: `${(this.soilSystem.getSlopeAt(pos.x, pos.z) * 100).toFixed(0)}%` },
+                    this.temperatureRow("🌡️ Soil Temp:", this.soilSystem.getTemperatureAt(pos.x, pos.z)),
                 ];
+                const pondingDepth = this.soilSystem.getPondingDepthAt(pos.x, pos.z) * 1000;
+                if (pondingDepth >= 1) {
+                    rows.push({ label: "💧 Puddle:", value: `${pondingDepth.toFixed(0)} mm`, color: "#66aaff" });
+                }
+                const timeSystem = this.world.getSystem(TimeSystem) as TimeSystem | null;
+                if (timeSystem) {
+                    rows.push(this.temperatureRow("Air Temp:", timeSystem.getAirTemperature()));
+                    const { icon, label } = timeSystem.getWeatherDefinition();
+                    const { wind } = timeSystem.getWeather();
+                    rows.push({ label: `${icon} Weather:`, value: `${label}, ${Math.hypot(wind.x, wind.z).toFixed(0)} m/s` });
+                }
 
                 // Show 3D tooltip at ground position
                 if (this.diegeticUI) {
@@ -633,6 +575,43 @@ export class InputSystem extends System {
         this.hideTooltip();
     }
 
+    /**
+     * Tooltip row for a temperature, blue at frost and red at heat-stress levels.
+     */
+    private temperatureRow(label: string, temperature: number): { label: string; value: string; color?: string } {
+        const color = temperature < FROST_TEMPERATURE ? "#88ccff"
+            : temperature > HEAT_STRESS_TEMPERATURE ? "#ff8866"
+                : undefined;
+        return { label, value: `${temperature.toFixed(1)}°C`, color };
+    }
+
+    /**
+     * Soil pH, flagged when it locks up any nutrient.
+     */
+    private soilPhRow(ph: number): { label: string; value: string; color?: string } {
+        const description = ph < 6 ? "acidic" : ph > 7.5 ? "alkaline" : "neutral";
+        const lockedUp = NUTRIENTS.some(nutrient => getNutrientAvailability(nutrient, ph) < 1);
+        return { label: "pH:", value: `${ph.toFixed(1)} (${description})`, color: lockedUp ? "#ffaa66" : undefined };
+    }
+
+    /**
+     * Soil pH against the species' preferred range, flagged when it slows growth.
+     */
+    private plantPhRow(speciesID: string, ph: number): { label: string; value: string; color?: string } {
+        const species = getSpecies(speciesID);
+        const [min, max] = species.preferredPh;
+        const color = getPhGrowthFactor(species, ph) < 1 ? "#ffaa66" : undefined;
+        return { label: "⚗️ Soil pH:", value: `${ph.toFixed(1)} (likes ${min.toFixed(1)}-${max.toFixed(1)})`, color };
+    }
+
+    /**
+     * Bulk density, flagged when it's compact enough to shed water.
+     */
+    private densityRow(density: number): { label: string; value: string; color?: string } {
+        const compacted = this.soilSystem.getInfiltration(density) < 1;
+        return { label: "Density:", value: `${density.toFixed(2)} g/cm³${compacted ? " (compacted)" : ""}`, color: compacted ? "#ffaa66" : undefined };
+    }
+
     private handleBuildMode(pickResult: BABYLON.PickingInfo): void {
         if (!pickResult.pickedPoint) return;
 
@@ -655,7 +634,7 @@ export class InputSystem extends System {
         this.isValidPlacement = !this.spatialHash.hasNearby(
             this.cursorPosition.x,
             this.cursorPosition.z,
-            this.BUILDING_RADIUS
+            this.commandSystem.BUILDING_RADIUS
         );
 
         const mat = this.cursorMesh.material as BABYLON.StandardMaterial;
@@ -666,18 +645,6 @@ export class InputSystem extends System {
         this.hideTooltip();
     }
 
-    private buildAt(x: number, z: number): void {
-        const type = this.toolManager.getActiveBuilding();
-        if (!type) return;
-
-        const entity = this.world.createEntity();
-        entity.addComponent(new TransformComponent(x, 0, z));
-        entity.addComponent(new BuildingState(type));
-
-        this.spatialHash.add(entity.id, x, z);
-        console.log(`Built ${type} at (${x.toFixed(2)}, ${z.toFixed(2)})`);
-    }
-
     private showTooltip(html: string, x: number, y: number): void {
         if (!this.tooltipEl) return;
         this.tooltipEl.innerHTML = html;
@@ -1,15 +1,21 @@
 
 import * as BABYLON from "@babylonjs/core";
 import { SkyMaterial } from "@babylonjs/materials";
-import { System, SystemType, World } from "../core/ECS";
+import { System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
 import { Engine } from "../core/Engine";
 import { TimeSystem } from "./TimeSystem";
 
 /**
  * LightingSystem manages the sun, skybox, and shadow casting.
- * The sun orbits the world based on the TimeSystem's time of day.
+ * The sun follows TimeSystem's sun path (+x east, +z north), so shadows swing
+ * from west to east during the day and are longer in winter. Cloud cover dims
+ * the sun and hides the stars, and foggy weather turns on scene fog.
  */
 export class LightingSystem extends System {
+    public readonly name = "LightingSystem";
+    // Sun, sky and shadows follow the clock before anything is drawn
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.POST_SIMULATION };
+
     private scene: BABYLON.Scene;
     private timeSystem: TimeSystem;
 
@@ -35,7 +41,11 @@ export class LightingSystem extends System {
 
     // Orbit settings
     private readonly SUN_DISTANCE = 80; // Distance from world center
-    private readonly SUN_HEIGHT_OFFSET = 20; // Minimum height above horizon
+
+    // Weather
+    private readonly CLOUD_DIMMING = 0.6; // Fraction of direct sun full cloud cover blocks
+    private readonly CLOUD_TURBIDITY = 15; // Extra sky haze at full cloud cover
+    private readonly MAX_FOG_DENSITY = 0.03; // Exponential fog density in thick fog
 
     constructor(world: World, timeSystem: TimeSystem) {
         super(world, SystemType.RENDER); // Update every frame for smooth sun movement
@@ -82,11 +92,12 @@ export class LightingSystem extends System {
         this.skybox.infiniteDistance = true;
 
         // Create Stars
+        const random = world.random.stream("decoration");
         this.stars = new BABYLON.PointsCloudSystem("stars", 1, this.scene);
         this.stars.addPoints(this.STAR_COUNT, (particle: BABYLON.CloudPoint) => {
             // Random position on sphere surface
-            const theta = 2 * Math.PI * Math.random();
-            const phi = Math.acos(2 * Math.random() - 1);
+            const theta = 2 * Math.PI * random.next();
+            const phi = Math.acos(2 * random.next() - 1);
 
             particle.position = new BABYLON.Vector3(
                 this.STAR_RADIUS * Math.cos(theta) * Math.sin(phi),
@@ -95,7 +106,7 @@ export class LightingSystem extends System {
             );
 
             // Random color (mostly white/blueish) - boosted 1.5x
-            const c = (0.8 + Math.random() * 0.2) * 1.5;
+            const c = (0.8 + random.next() * 0.2) * 1.5;
             particle.color = new BABYLON.Color4(c, c, (c + 0.1) * 1.5, 1);
         });
 
@@ -120,12 +131,17 @@ export class LightingSystem extends System {
         this.ambientLight.intensity = 0.5;
         this.ambientLight.groundColor = new BABYLON.Color3(0.1, 0.1, 0.15);
 
+        // Fog stays on; its density follows the weather
+        this.scene.fogMode = BABYLON.Scene.FOGMODE_EXP2;
+        this.scene.fogDensity = 0;
+
         // Set initial position
         this.updateCelestialPositions();
     }
 
     public update(_deltaTime: number): void {
         this.updateCelestialPositions();
+        this.updateWeatherEffects();
 
         // Rotate stars slowly
         if (this.starMesh) {
@@ -134,35 +150,28 @@ export class LightingSystem extends System {
     }
 
     private updateCelestialPositions(): void {
-        const timeOfDay = this.timeSystem.getTimeOfDayFraction();
-
-        // Convert time to angle: 0.5 (noon) = sun at highest point
-        // 0.0 or 1.0 (midnight) = sun below horizon
-        // Shift so sunrise (0.25) is at 0
-        const angle = (timeOfDay - 0.25) * 2 * Math.PI;
-
-        // Calculate sun position (X-Y plane for now, standard orbit)
-        const x = Math.cos(angle) * this.SUN_DISTANCE;
-        const y = Math.sin(angle) * this.SUN_DISTANCE + this.SUN_HEIGHT_OFFSET;
-        const z = 0;
-
-        const sunPosition = new BABYLON.Vector3(x, y, z);
+        // Elevation and azimuth from the latitude, time of year and time of day
+        const sun = this.timeSystem.getSunPosition();
+        const sunDirection = new BABYLON.Vector3(sun.direction.x, sun.direction.y, sun.direction.z);
+        const sunPosition = sunDirection.scale(this.SUN_DISTANCE);
 
         // Update SkyMaterial Sun Position
         this.skyMaterial.useSunPosition = true;
         this.skyMaterial.sunPosition = sunPosition;
 
         // Determine Sun/Moon State
-        const isDay = y > 0;
+        const isDay = sun.elevation > 0;
+        const sinElevation = Math.sin(sun.elevation);
 
         // --- Sun Logic ---
-        this.sunLight.direction = sunPosition.negate().normalize();
+        this.sunLight.direction = sunDirection.negate();
 
-        const sunHeightRatio = Math.max(0, Math.min(1, y / this.SUN_DISTANCE));
+        // Same curve as open-sky sunlight, so what you see matches what plants get
+        const sunHeightRatio = this.timeSystem.getClearSkySunlight();
 
         // Intensity fades out as sun sets
         this.sunLight.intensity = sunHeightRatio * 1.5; // Brighter sun
-        this.sunLight.setEnabled(isDay || sunHeightRatio > 0.1);
+        this.sunLight.setEnabled(sunHeightRatio > 0);
 
         // Adjust Sun Color (warm at horizon)
         if (sunHeightRatio < 0.3) {
@@ -176,27 +185,19 @@ export class LightingSystem extends System {
 
         // --- Star Logic ---
         if (this.starMesh) {
-            // Fade stars in when sun is below horizon (y < 0)
-            // Full visibility at midnight (y lowest)
-            // Start fading in at y < 10 (dusk)
-
-            const starVisibility = 1.0 - Math.min(1, Math.max(0, (y + 10) / 30));
+            // Start fading in when the sun is about 6° up, fully visible from about 12° below the horizon
+            const starVisibility = 1.0 - Math.min(1, Math.max(0, (sinElevation + 0.2) / 0.3));
             this.starMesh.visibility = starVisibility;
         }
 
         // --- Moon Logic ---
         // Moon is opposite to sun
-        const moonAngle = angle + Math.PI;
-        const moonX = Math.cos(moonAngle) * this.SUN_DISTANCE;
-        const moonY = Math.sin(moonAngle) * this.SUN_DISTANCE + this.SUN_HEIGHT_OFFSET;
-
-        const moonPosition = new BABYLON.Vector3(moonX, moonY, z);
-        this.moonLight.direction = moonPosition.negate().normalize();
+        this.moonLight.direction = sunDirection.clone();
 
         // Moon only active at night
         this.moonLight.setEnabled(!isDay);
 
-        const moonHeightRatio = Math.max(0, Math.min(1, moonY / this.SUN_DISTANCE));
+        const moonHeightRatio = Math.max(0, Math.min(1, -sinElevation + 0.25));
         this.moonLight.intensity = moonHeightRatio * 0.5; // Brighter moonlight
 
         // --- Ambient Logic ---
@@ -210,6 +211,26 @@ export class LightingSystem extends System {
         }
     }
 
+    /**
+     * Clouds dim the sun, haze the sky and hide the stars; fog thickens the air.
+     */
+    private updateWeatherEffects(): void {
+        const { cloudCover, fog } = this.timeSystem.getWeather();
+
+        this.sunLight.intensity *= 1 - cloudCover * this.CLOUD_DIMMING;
+        this.skyMaterial.turbidity = 5 + cloudCover * this.CLOUD_TURBIDITY;
+        if (this.starMesh) {
+            this.starMesh.visibility *= 1 - cloudCover;
+        }
+
+        this.scene.fogDensity = fog * this.MAX_FOG_DENSITY;
+        if (fog > 0) {
+            // Fog takes on the sky's brightness, grey by day and dark at night
+            const brightness = 0.15 + 0.6 * this.timeSystem.getOpenSkySunlight();
+            this.scene.fogColor = new BABYLON.Color3(brightness, brightness, brightness * 1.05);
+        }
+    }
+
     /**
      * Get the shadow generator to add shadow casters
      */
@@ -236,19 +257,17 @@ export class LightingSystem extends System {
      * Returns a value between 0 (full shadow) and 1 (full sun).
      */
     public getSunlightIntensity(worldX: number, worldZ: number): number {
-        const timeOfDay = this.timeSystem.getTimeOfDayFraction();
+        const openSky = this.timeSystem.getOpenSkySunlight();
 
         // Night time - no sunlight at all
-        if (timeOfDay < 0.25 || timeOfDay > 0.85) {
+        if (openSky <= 0) {
             return 0;
         }
 
-        // Get sun direction
-        const sunDirection = this.sunLight.direction.clone();
+        // Cast ray towards the sun (the same sun path the light follows)
+        const sun = this.timeSystem.getSunPosition().direction;
         const rayOrigin = new BABYLON.Vector3(worldX, 0.1, worldZ);
-
-        // Cast ray towards sun (opposite of light direction)
-        const rayDirection = sunDirection.negate();
+        const rayDirection = new BABYLON.Vector3(sun.x, sun.y, sun.z);
         const ray = new BABYLON.Ray(rayOrigin, rayDirection, this.SUN_DISTANCE * 2);
 
         // Check for intersection with any mesh
@@ -263,12 +282,8 @@ export class LightingSystem extends System {
             return 0; // In shadow
         }
 
-        // Calculate intensity based on sun height
-        const angle = (timeOfDay - 0.25) * 2 * Math.PI;
-        const sunY = Math.sin(angle) * this.SUN_DISTANCE + this.SUN_HEIGHT_OFFSET;
-        const heightRatio = Math.max(0, Math.min(1, sunY / this.SUN_DISTANCE));
-
-        return heightRatio;
+        // Intensity based on sun height
+        return openSky;
     }
 
     /**
@@ -0,0 +1,235 @@
+import { System, SystemType, World } from "../core/ECS";
+import { FrameSample, ProfilerReport } from "../core/Profiler";
+
+const FRAME_BUDGET_MS = 1000 / 60;
+const TABLE_ROWS = 8;
+
+/**
+ * Performance overlay (F3): rolling graphs of frame time split into fixed
+ * systems / render systems / scene render, fixed ticks per frame with the
+ * accumulator backlog, and the slowest systems over the profiler window.
+ */
+export class ProfilerOverlaySystem extends System {
+    public readonly name = "ProfilerOverlaySystem";
+    private container: HTMLElement;
+    private frameCanvas: HTMLCanvasElement;
+    private tickCanvas: HTMLCanvasElement;
+    private table: HTMLElement;
+    private isVisible: boolean = false;
+
+    private readonly TABLE_INTERVAL_MS = 250; // Refresh the text table 4x per second
+    private lastTableUpdate = 0;
+
+    constructor(world: World) {
+        super(world, SystemType.RENDER);
+
+        // Create UI Container
+        this.container = document.createElement("div");
+        this.container.id = "profiler-container";
+        this.container.style.position = "absolute";
+        this.container.style.top = "150px";
+        this.container.style.left = "20px";
+        this.container.style.width = "320px";
+        this.container.style.backgroundColor = "rgba(0, 0, 0, 0.85)";
+        this.container.style.border = "1px solid #444";
+        this.container.style.borderRadius = "8px";
+        this.container.style.padding = "10px";
+        this.container.style.display = "none"; // Hidden by default
+        this.container.style.zIndex = "100"; // Ensure on top
+        this.container.style.fontFamily = "monospace";
+        this.container.style.fontSize = "10px";
+        this.container.style.color = "#eee";
+
+        // Title
+        const title = document.createElement("div");
+        title.innerHTML = "<strong>Profiler (last 300 frames)</strong>";
+        title.style.fontSize = "12px";
+        title.style.marginBottom = "5px";
+        title.style.textAlign = "center";
+        this.container.appendChild(title);
+
+        // Frame time graph
+        this.container.appendChild(this.createLegend(`
+            <span style="color: #4488ff">■ Fixed</span>
+            <span style="color: #44ff88">■ Render</span>
+            <span style="color: #ffaa44">■ Scene</span>
+            <span style="color: #ff4444">— 60 fps</span>
+        `));
+        this.frameCanvas = document.createElement("canvas");
+        this.frameCanvas.width = 300;
+        this.frameCanvas.height = 90;
+        this.container.appendChild(this.frameCanvas);
+
+        // Ticks / backlog graph
+        this.container.appendChild(this.createLegend(`
+            <span style="color: #aaaaff">■ Ticks/frame</span>
+            <span style="color: #ff66cc">— Backlog (ms)</span>
+        `));
+        this.tickCanvas = document.createElement("canvas");
+        this.tickCanvas.width = 300;
+        this.tickCanvas.height = 50;
+        this.container.appendChild(this.tickCanvas);
+
+        // Slowest systems
+        this.table = document.createElement("pre");
+        this.table.style.margin = "5px 0";
+        this.table.style.fontSize = "10px";
+        this.container.appendChild(this.table);
+
+        const dumpButton = document.createElement("button");
+        dumpButton.textContent = "Download JSON";
+        dumpButton.style.fontFamily = "monospace";
+        dumpButton.style.fontSize = "10px";
+        dumpButton.onclick = () => this.downloadReport();
+        this.container.appendChild(dumpButton);
+
+        document.body.appendChild(this.container);
+    }
+
+    public setVisible(visible: boolean): void {
+        this.isVisible = visible;
+        this.container.style.display = visible ? "block" : "none";
+        if (visible) {
+            this.draw();
+        }
+    }
+
+    public toggle(): void {
+        this.setVisible(!this.isVisible);
+    }
+
+    /**
+     * Save the profiler window as JSON for a performance bug report.
+     */
+    public downloadReport(): ProfilerReport {
+        const report = this.world.profiler.getReport();
+        const blob = new Blob([JSON.stringify(report)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `verdant-profile-${report.capturedAt.replace(/[:.]/g, "-")}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+        return report;
+    }
+
+    public update(_deltaTime: number): void {
+        if (!this.isVisible) return;
+
+        // Real time, not deltaTime: game time is scaled by speed and stops while paused
+        const now = performance.now();
+        if (now - this.lastTableUpdate >= this.TABLE_INTERVAL_MS) {
+            this.lastTableUpdate = now;
+            this.updateTable();
+        }
+
+        this.draw();
+    }
+
+    private createLegend(html: string): HTMLElement {
+        const legend = document.createElement("div");
+        legend.style.display = "flex";
+        legend.style.justifyContent = "space-around";
+        legend.style.margin = "5px 0";
+        legend.innerHTML = html;
+        return legend;
+    }
+
+    private updateTable(): void {
+        const summary = this.world.profiler.getSummary();
+        const lines = [
+            `frame avg ${summary.avgFrameMs.toFixed(2)}  p95 ${summary.p95FrameMs.toFixed(2)}  max ${summary.maxFrameMs.toFixed(2)} ms`,
+            `ticks avg ${summary.avgTicksPerFrame.toFixed(2)}  max ${summary.maxTicksPerFrame}  backlog max ${summary.maxBacklogMs.toFixed(0)} ms`,
+            "",
+            `${"system".padEnd(22)}${"avg".padStart(7)}${"max".padStart(8)}`,
+        ];
+        for (const system of summary.systems.slice(0, TABLE_ROWS)) {
+            const tag = system.type === SystemType.FIXED ? "F" : "R";
+            lines.push(`${`${tag} ${system.name}`.padEnd(22).slice(0, 22)}${system.avgMs.toFixed(2).padStart(7)}${system.maxMs.toFixed(2).padStart(8)}`);
+        }
+        this.table.textContent = lines.join("\n");
+    }
+
+    private draw(): void {
+        const history = this.world.profiler.getHistory();
+        if (history.length < 2) return;
+        this.drawFrameGraph(history);
+        this.drawTickGraph(history);
+    }
+
+    private drawFrameGraph(history: readonly FrameSample[]): void {
+        const ctx = this.frameCanvas.getContext("2d")!;
+        const width = this.frameCanvas.width;
+        const height = this.frameCanvas.height;
+        ctx.clearRect(0, 0, width, height);
+
+        // Scale to the worst frame, but never below two frame budgets so a smooth graph stays flat
+        let maxMs = FRAME_BUDGET_MS * 2;
+        for (const f of history) {
+            maxMs = Math.max(maxMs, f.fixedMs + f.renderMs + f.sceneMs);
+        }
+        const barWidth = width / history.length;
+        const getY = (ms: number) => height - (ms / maxMs) * height;
+
+        // Stacked bars: fixed, render, scene
+        history.forEach((f, i) => {
+            const x = i * barWidth;
+            let base = 0;
+            for (const [ms, color] of [[f.fixedMs, "#4488ff"], [f.renderMs, "#44ff88"], [f.sceneMs, "#ffaa44"]] as const) {
+                ctx.fillStyle = color;
+                ctx.fillRect(x, getY(base + ms), Math.max(barWidth, 1), getY(base) - getY(base + ms));
+                base += ms;
+            }
+        });
+
+        // 60 fps budget line
+        ctx.strokeStyle = "#ff4444";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(0, getY(FRAME_BUDGET_MS));
+        ctx.lineTo(width, getY(FRAME_BUDGET_MS));
+        ctx.stroke();
+
+        ctx.fillStyle = "#eee";
+        ctx.font = "10px monospace";
+        ctx.fillText(`${maxMs.toFixed(0)} ms`, 2, 10);
+    }
+
+    private drawTickGraph(history: readonly FrameSample[]): void {
+        const ctx = this.tickCanvas.getContext("2d")!;
+        const width = this.tickCanvas.width;
+        const height = this.tickCanvas.height;
+        ctx.clearRect(0, 0, width, height);
+
+        let maxTicks = 2;
+        let maxBacklog = 100; // One tick at 10 Hz
+        for (const f of history) {
+            maxTicks = Math.max(maxTicks, f.ticks);
+            maxBacklog = Math.max(maxBacklog, f.backlogMs);
+        }
+        const barWidth = width / history.length;
+
+        // Ticks per frame as bars
+        ctx.fillStyle = "#aaaaff";
+        history.forEach((f, i) => {
+            const h = (f.ticks / maxTicks) * height;
+            ctx.fillRect(i * barWidth, height - h, Math.max(barWidth, 1), h);
+        });
+
+        // Backlog as a line
+        ctx.strokeStyle = "#ff66cc";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        history.forEach((f, i) => {
+            const x = i * barWidth;
+            const y = height - (f.backlogMs / maxBacklog) * height;
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+
+        ctx.fillStyle = "#eee";
+        ctx.font = "10px monospace";
+        ctx.fillText(`${maxTicks} ticks / ${maxBacklog.toFixed(0)} ms`, 2, 10);
+    }
+}
@@ -8,16 +8,46 @@ import { BuildingState } from "../components/BuildingState";
 import { Needs } from "../components/Needs";
 import { TransformComponent } from "../components/TransformComponent";
 import { Engine } from "../core/Engine";
+import { Query } from "../core/Query";
 import * as BABYLON from "@babylonjs/core";
 import * as GUI from "@babylonjs/gui";
 import { TimeSystem } from "./TimeSystem";
 import { LightingSystem } from "./LightingSystem";
+import type { PrecipitationType } from "../core/Weather";
 
 // Mesh configurations per stage
 // STAGE_MESHES removed in favor of L-System generation
 
 type PlantStatus = "happy" | "thirsty" | "wilting" | "coma" | "dead" | "growing";
 
+// How each kind of precipitation falls. Streaks stretch the rain texture; flakes use a round one.
+interface PrecipitationLook {
+    texture: "streak" | "flake";
+    color: [number, number, number, number];
+    size: [number, number];
+    scaleY: [number, number];
+    lifeTime: [number, number];
+    emitPower: [number, number];
+    gravity: number;
+    emitRate: number;    // Particles per second at full intensity
+    windDrift: number;   // Sideways direction per m/s of wind
+}
+
+const PRECIPITATION_LOOKS: Record<Exclude<PrecipitationType, "none">, PrecipitationLook> = {
+    rain: {
+        texture: "streak", color: [0.8, 0.8, 1.0, 0.2], size: [0.05, 0.15], scaleY: [3, 5],
+        lifeTime: [0.5, 1.0], emitPower: [10, 20], gravity: 98.1, emitRate: 500, windDrift: 0.03,
+    },
+    snow: {
+        texture: "flake", color: [1, 1, 1, 0.8], size: [0.08, 0.16], scaleY: [1, 1],
+        lifeTime: [8, 12], emitPower: [2, 4], gravity: 0.5, emitRate: 300, windDrift: 0.15,
+    },
+    hail: {
+        texture: "flake", color: [0.95, 0.97, 1, 0.9], size: [0.06, 0.12], scaleY: [1, 1],
+        lifeTime: [0.5, 1.0], emitPower: [15, 25], gravity: 98.1, emitRate: 300, windDrift: 0.02,
+    },
+};
+
 // 3D Label interface
 interface PlantLabel {
     plane: BABYLON.Mesh;
@@ -27,12 +57,18 @@ interface PlantLabel {
 }
 
 export class RenderSystem extends System {
+    public readonly name = "RenderSystem";
     private scene: BABYLON.Scene;
     private gameEngine: Engine;
 
     // Standard meshes for all entities (plants, buildings, dead plants)
     private entityMeshes: Map<EntityID, BABYLON.Mesh> = new Map();
 
+    // Live views of renderable entities
+    private plants: Query<[typeof PlantState, typeof TransformComponent]>;
+    private deadPlants: Query<[typeof DeadPlantState, typeof TransformComponent]>;
+    private buildings: Query<[typeof BuildingState, typeof TransformComponent]>;
+
     // 3D Labels for plants (replaces HTML labels)
     private plantLabels: Map<EntityID, PlantLabel> = new Map();
     private overlayEnabled: boolean = false;
@@ -40,8 +76,10 @@ export class RenderSystem extends System {
     private lightingSystem: LightingSystem | null = null;
     private waterOverlayEnabled: boolean = false;
 
-    // Rain Particle System
+    // Precipitation Particle System (rain, snow or hail)
     private rainSystem: BABYLON.GPUParticleSystem | null = null;
+    private rainTextures: Record<PrecipitationLook["texture"], BABYLON.Texture> | null = null;
+    private precipitationType: PrecipitationType = "none";
     private timeSystem: TimeSystem | null = null;
 
     constructor(world: World) {
@@ -49,6 +87,10 @@ export class RenderSystem extends System {
         this.gameEngine = Engine.getInstance();
         this.scene = this.gameEngine.getScene();
 
+        this.plants = world.query(PlantState, TransformComponent);
+        this.deadPlants = world.query(DeadPlantState, TransformComponent);
+        this.buildings = world.query(BuildingState, TransformComponent);
+
         // Initialize Rain
         this.initializeRain();
     }
@@ -69,6 +111,20 @@ export class RenderSystem extends System {
         rainTexture.update();
         rainTexture.hasAlpha = true;
 
+        // Round texture for snowflakes and hailstones
+        const flakeTexture = new BABYLON.DynamicTexture("flakeTexture", { width: 32, height: 32 }, this.scene, false);
+        const flakeCtx = flakeTexture.getContext();
+        flakeCtx.clearRect(0, 0, 32, 32);
+        const flakeGradient = flakeCtx.createRadialGradient(16, 16, 0, 16, 16, 16);
+        flakeGradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+        flakeGradient.addColorStop(0.6, "rgba(255, 255, 255, 0.6)");
+        flakeGradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+        flakeCtx.fillStyle = flakeGradient;
+        flakeCtx.fillRect(0, 0, 32, 32);
+        flakeTexture.update();
+        flakeTexture.hasAlpha = true;
+        this.rainTextures = { streak: rainTexture, flake: flakeTexture };
+
         // Create GPU Particle System for performance
         this.rainSystem = new BABYLON.GPUParticleSystem("rain", { capacity: 10000 }, this.scene);
         this.rainSystem.particleTexture = rainTexture;
@@ -131,8 +187,7 @@ export class RenderSystem extends System {
 
         // 2. Update Rain
         if (this.rainSystem && this.timeSystem) {
-            const intensity = this.timeSystem.rainIntensity;
-            this.rainSystem.emitRate = intensity * 500;
+            this.updatePrecipitation(this.rainSystem);
         }
 
         // Track active entity IDs for cleanup
@@ -151,16 +206,44 @@ export class RenderSystem extends System {
         this.cleanupMeshes(activeEntityIds);
     }
 
-    private updatePlants(deltaTime: number, activeIds: Set<EntityID>): void {
-        const entities = this.world.getEntitiesWithComponent(PlantState);
+    /**
+     * Match the particles to the weather: rain, snow or hail, slanted by the wind.
+     */
+    private updatePrecipitation(rainSystem: BABYLON.GPUParticleSystem): void {
+        const weather = this.timeSystem!.getWeather();
+        if (weather.precipitationType === "none") {
+            rainSystem.emitRate = 0;
+            return;
+        }
+
+        const look = PRECIPITATION_LOOKS[weather.precipitationType];
+        if (weather.precipitationType !== this.precipitationType) {
+            this.precipitationType = weather.precipitationType;
+            if (this.rainTextures) rainSystem.particleTexture = this.rainTextures[look.texture];
+            rainSystem.color1 = new BABYLON.Color4(...look.color);
+            rainSystem.color2 = new BABYLON.Color4(...look.color);
+            rainSystem.minSize = look.size[0];
+            rainSystem.maxSize = look.size[1];
+            rainSystem.minScaleY = look.scaleY[0];
+            rainSystem.maxScaleY = look.scaleY[1];
+            rainSystem.minLifeTime = look.lifeTime[0];
+            rainSystem.maxLifeTime = look.lifeTime[1];
+            rainSystem.minEmitPower = look.emitPower[0];
+            rainSystem.maxEmitPower = look.emitPower[1];
+        }
 
-        for (const entity of entities) {
-            const state = entity.getComponent(PlantState);
-            const transform = entity.getComponent(TransformComponent);
+        const driftX = weather.wind.x * look.windDrift;
+        const driftZ = weather.wind.z * look.windDrift;
+        rainSystem.direction1.set(driftX, -1, driftZ);
+        rainSystem.direction2.set(driftX, -1, driftZ);
+        rainSystem.gravity.set(driftX * look.gravity, -look.gravity, driftZ * look.gravity);
+        rainSystem.emitRate = weather.precipitation * look.emitRate;
+    }
+
+    private updatePlants(deltaTime: number, activeIds: Set<EntityID>): void {
+        for (const [entity, state, transform] of this.plants) {
             const needs = entity.getComponent(Needs);
             const genome = entity.getComponent(PlantGenome);
-
-            if (!state || !transform) continue;
             activeIds.add(entity.id);
 
             let mesh = this.entityMeshes.get(entity.id);
@@ -303,15 +386,15 @@ export class RenderSystem extends System {
         } else {
             state.stressLevel = 0;
         }
+
+        // Frost or heat damage shows like drought stress
+        if (state.health < 40) {
+            state.stressLevel = Math.max(state.stressLevel, 2);
+        }
     }
 
     private updateDeadPlants(activeIds: Set<EntityID>): void {
-        const entities = this.world.getEntitiesWithComponent(DeadPlantState);
-        for (const entity of entities) {
-            const state = entity.getComponent(DeadPlantState);
-            const transform = entity.getComponent(TransformComponent);
-
-            if (!state || !transform) continue;
+        for (const [entity, state, transform] of this.deadPlants) {
             activeIds.add(entity.id);
 
             let mesh = this.entityMeshes.get(entity.id);
@@ -357,12 +440,8 @@ export class RenderSystem extends System {
     }
 
     private updateBuildings(activeIds: Set<EntityID>): void {
-        const entities = this.world.getEntitiesWithComponent(BuildingState);
-        for (const entity of entities) {
-            const state = entity.getComponent(BuildingState);
-            const transform = entity.getComponent(TransformComponent);
-
-            if (!state || !state.type || !transform) continue;
+        for (const [entity, state, transform] of this.buildings) {
+            if (!state.type) continue;
             activeIds.add(entity.id);
 
             let mesh = this.entityMeshes.get(entity.id);
@@ -420,22 +499,41 @@ export class RenderSystem extends System {
     }
 
     private cleanupMeshes(activeIds: Set<EntityID>): void {
-        for (const [id, mesh] of this.entityMeshes) {
+        for (const id of this.entityMeshes.keys()) {
             if (!activeIds.has(id)) {
-                mesh.dispose();
-                this.entityMeshes.delete(id);
-
-                // Cleanup 3D label
-                const label = this.plantLabels.get(id);
-                if (label) {
-                    label.texture.dispose();
-                    label.plane.dispose();
-                    this.plantLabels.delete(id);
-                }
+                this.disposeEntityMesh(id);
             }
         }
     }
 
+    /**
+     * Dispose an entity's mesh and label now. They are recreated on the next
+     * frame if the entity still exists (used when undo swaps an entity out).
+     */
+    public disposeEntityMesh(id: EntityID): void {
+        const mesh = this.entityMeshes.get(id);
+        if (mesh) {
+            mesh.dispose();
+            this.entityMeshes.delete(id);
+        }
+
+        // Cleanup 3D label
+        const label = this.plantLabels.get(id);
+        if (label) {
+            label.texture.dispose();
+            label.plane.dispose();
+            this.plantLabels.delete(id);
+        }
+    }
+
+    /**
+     * Dispose every entity mesh and label so they are rebuilt from the
+     * current World on the next frame (used after loading a save).
+     */
+    public clearEntityMeshes(): void {
+        this.cleanupMeshes(new Set());
+    }
+
     private getPlantStatus(state: PlantState, needs: Needs | undefined): PlantStatus {
         if (state.inComa) return "coma";
         if (state.health <= 0) return "dead";
@@ -0,0 +1,172 @@
+import { System, SystemType, World, SystemPhase, SystemSchedule, EntityID } from "../core/ECS";
+import { Query } from "../core/Query";
+import { PlantState } from "../components/PlantState";
+import { Needs } from "../components/Needs";
+import { DeadPlantState } from "../components/DeadPlantState";
+import { TimeSystem } from "./TimeSystem";
+import { SoilSystem } from "./SoilSystem";
+
+// Water level below which a plant counts as stressed (RenderSystem's wilting stress level)
+const STRESSED_WATER_LEVEL = 30;
+
+/**
+ * What happened while the player slept.
+ */
+export interface NightReport {
+    hoursSlept: number;      // Game-hours asleep
+    rainHours: number;       // Game-hours with rain falling
+    rainfall: number;        // Moisture rain added per soil cell (before saturation)
+    stressed: number;        // Plants that became water-stressed overnight
+    died: number;
+    decomposed: number;      // Dead plants that fully decayed
+    decaying: number;        // Dead plants still decaying at wake-up
+    decayProgress: number;   // Average decay gained by those, in percentage points
+}
+
+interface Night {
+    report: NightReport;
+    stressedAtStart: Set<EntityID>;
+    stressed: Set<EntityID>;
+    decayAtStart: Map<EntityID, number>;
+}
+
+/**
+ * SleepSystem watches TimeSystem's sleep state (started by the `sleep`
+ * command) and builds a NightReport from bedtime to wake-up. It only reads
+ * the world, so it runs after the simulation and doesn't affect it.
+ *
+ * A sleep restored from a save is reported from the load onwards.
+ */
+export class SleepSystem extends System {
+    public readonly name = "SleepSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.POST_SIMULATION };
+
+    private timeSystem: TimeSystem;
+    private soilSystem: SoilSystem;
+    private plants: Query<[typeof PlantState, typeof Needs]>;
+    private deadPlants: Query<[typeof DeadPlantState]>;
+
+    private night: Night | null = null;
+    private sleepListeners: (() => void)[] = [];
+    private wakeListeners: ((report: NightReport | null) => void)[] = [];
+
+    constructor(world: World, timeSystem: TimeSystem, soilSystem: SoilSystem) {
+        super(world, SystemType.FIXED);
+        this.timeSystem = timeSystem;
+        this.soilSystem = soilSystem;
+        this.plants = world.query(PlantState, Needs).without(DeadPlantState);
+        this.deadPlants = world.query(DeadPlantState);
+
+        this.world.events.on("plantDied", () => {
+            if (this.night) this.night.report.died++;
+        });
+        this.world.events.on("entityDestroyed", ({ entity }) => {
+            if (this.night && entity.hasComponent(DeadPlantState)) this.night.report.decomposed++;
+        });
+    }
+
+    /**
+     * Called when a sleep begins (or a sleeping save is loaded).
+     */
+    public onSleep(listener: () => void): void {
+        this.sleepListeners.push(listener);
+    }
+
+    /**
+     * Called on wake-up with the night's report, or with null when the night
+     * was cut short by loading a save.
+     */
+    public onWake(listener: (report: NightReport | null) => void): void {
+        this.wakeListeners.push(listener);
+    }
+
+    public isSleeping(): boolean {
+        return this.night !== null;
+    }
+
+    /**
+     * Drop the current night without a report (after loading a save).
+     */
+    public reset(): void {
+        if (!this.night) return;
+        this.night = null;
+        this.wakeListeners.forEach(listener => listener(null));
+    }
+
+    public update(deltaTime: number): void {
+        const sleeping = this.timeSystem.getIsSleeping();
+
+        if (sleeping && !this.night) {
+            this.night = this.beginNight();
+            this.sleepListeners.forEach(listener => listener());
+        }
+        if (!this.night) return;
+
+        if (sleeping) {
+            this.recordTick(this.night, deltaTime);
+            return;
+        }
+
+        const report = this.finishNight(this.night);
+        this.night = null;
+        this.wakeListeners.forEach(listener => listener(report));
+    }
+
+    private beginNight(): Night {
+        const stressedAtStart = new Set<EntityID>();
+        for (const [entity, , needs] of this.plants) {
+            if (needs.water < STRESSED_WATER_LEVEL) stressedAtStart.add(entity.id);
+        }
+
+        const decayAtStart = new Map<EntityID, number>();
+        for (const [entity, dead] of this.deadPlants) {
+            decayAtStart.set(entity.id, dead.decayProgress);
+        }
+
+        return {
+            report: {
+                hoursSlept: 0,
+                rainHours: 0,
+                rainfall: 0,
+                stressed: 0,
+                died: 0,
+                decomposed: 0,
+                decaying: 0,
+                decayProgress: 0,
+            },
+            stressedAtStart,
+            stressed: new Set(),
+            decayAtStart,
+        };
+    }
+
+    private recordTick(night: Night, deltaTime: number): void {
+        const hours = this.timeSystem.toGameTime(deltaTime);
+        night.report.hoursSlept += hours;
+
+        if (this.timeSystem.isRaining()) {
+            night.report.rainHours += hours;
+            night.report.rainfall += this.soilSystem.getPrecipitationRate() * deltaTime;
+        }
+
+        for (const [entity, , needs] of this.plants) {
+            if (needs.water < STRESSED_WATER_LEVEL && !night.stressedAtStart.has(entity.id)) {
+                night.stressed.add(entity.id);
+            }
+        }
+    }
+
+    private finishNight(night: Night): NightReport {
+        const report = night.report;
+        report.stressed = night.stressed.size;
+
+        // Plants that died overnight started decaying from zero
+        let totalProgress = 0;
+        for (const [entity, dead] of this.deadPlants) {
+            totalProgress += dead.decayProgress - (night.decayAtStart.get(entity.id) ?? 0);
+            report.decaying++;
+        }
+        report.decayProgress = report.decaying > 0 ? totalProgress / report.decaying : 0;
+        return report;
+    }
+}
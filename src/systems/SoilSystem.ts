@@ -1,20 +1,81 @@
-import { System, SystemType, World } from "../core/ECS";
+import { System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
 import { Engine } from "../core/Engine";
+import { GameLoop } from "../core/GameLoop";
 import * as BABYLON from "@babylonjs/core";
 import { TimeSystem } from "./TimeSystem";
 import type { LightingSystem } from "./LightingSystem";
+import type { PrecipitationType } from "../core/Weather";
+import { NUTRIENTS, NUTRIENT_DEFINITIONS, Nutrient, SOIL_OVERLAYS, SoilOverlay, getNutrientAvailability } from "../core/Nutrients";
+import { GROUND_DEFINITIONS, GROUND_TYPES, GroundDefinition, GroundType } from "../core/Ground";
+import { SOIL_TEXTURES, SOIL_TEXTURE_DEFINITIONS, SoilTexture, SoilTextureDefinition, classifySoilTexture } from "../core/SoilTexture";
+import { PerlinNoise } from "../core/PerlinNoise";
 import { visualizationFragmentShader } from "../shaders/visualizationFragment";
 
+/**
+ * Serializable soil grid state. Arrays are row-major (z * GRID_SIZE + x).
+ */
+export interface SoilSnapshot {
+    gridSize: number;
+    moisture: number[];
+    nitrogen: number[];
+    phosphorus: number[];
+    potassium: number[];
+    ph: number[];
+    density: number[];     // Bulk density, g/cm³
+    surfaceWater: number[]; // Standing water, in moisture units
+    ground: number[];      // Index into GROUND_TYPES
+    clay: number[];        // Clay fraction, 0-1
+    sand: number[];        // Sand fraction, 0-1 (silt is the rest)
+    temperature: number[]; // °C
+}
+
 // Register visualization shader
 BABYLON.Effect.ShadersStore["soilVisualizationPixelShader"] = visualizationFragmentShader;
 
 /**
  * SoilSystem manages per-tile soil data with diffusion and absorption.
  * Uses CPU for simulation, GPU (CustomProceduralTexture) for visualization only.
+ *
+ * Nitrogen, phosphorus and potassium each have a grid. They diffuse and are
+ * absorbed the same way, at the rates in NUTRIENT_DEFINITIONS (phosphorus
+ * barely moves).
+ *
+ * Each cell also has a pH and a bulk density. Roots only reach the share of a
+ * nutrient its pH makes available (getNutrientAvailability). Dense, compacted
+ * soil lets less rain and watering soak in (getInfiltration) and keeps roots
+ * from spreading. pH evens out very slowly; density only changes when the
+ * soil is amended.
+ *
+ * Soil temperature follows the air, plus heating where the sun reaches the
+ * ground. Wet soil warms and cools more slowly, and shaded cells (sampled a
+ * few per tick from LightingSystem) get no sun heating.
+ *
+ * Precipitation lands as surface water; snow and hail add less water than
+ * rain of the same intensity. Surface water soaks in at a limited rate (less
+ * on compacted or steep ground), and the rest flows downhill over the terrain
+ * and pools in hollows until it soaks in or evaporates. Soil water also seeps
+ * slowly downhill, so valleys end up wetter than ridges. Wind speeds up
+ * evaporation.
+ *
+ * Each cell has a ground type (GROUND_DEFINITIONS) painted by the player.
+ * Ponds stay saturated and paving stays dry; stone and rock cells are sealed,
+ * so nothing diffuses or seeps through them. Ground types also scale how fast
+ * water soaks in and evaporates (mulch holds moisture in).
+ *
+ * The starting soil is generated from the world seed: Perlin noise lays out
+ * clay and sand fractions, with fine particles settled in the valleys and
+ * sand on the ridges. Each cell's texture (SOIL_TEXTURE_DEFINITIONS) sets how
+ * fast water soaks in and seeps, how fast it spreads, how well the soil holds
+ * it against evaporation, and how rich the soil starts out.
  */
 export class SoilSystem extends System {
+    public readonly name = "SoilSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.SIMULATION, after: [TimeSystem] };
+
     private groundMaterial: BABYLON.StandardMaterial | null;
     private scene: BABYLON.Scene;
+    // Headless runs keep the CPU simulation and skip all GPU resources
+    private readonly headless: boolean;
 
     // Grid Constants
     public readonly CELL_SIZE = 1.0;
@@ -23,38 +84,105 @@ export class SoilSystem extends System {
 
     // Simulation Parameters
     private readonly SATURATION_THRESHOLD = 100;
+    private readonly MAX_NUTRIENT = 100;
+    private readonly MIN_PH = 3.5;
+    private readonly MAX_PH = 9.5;
+    private readonly PH_DIFFUSION = 0.05; // Multiplier on the diffusion rate
+    private readonly MIN_DENSITY = 0.9;   // g/cm³, loose and crumbly
+    private readonly MAX_DENSITY = 1.9;   // g/cm³, hardpan
+    // Water soaks in fully up to LOOSE_DENSITY, falling to MIN_INFILTRATION at COMPACT_DENSITY
+    private readonly LOOSE_DENSITY = 1.4;
+    private readonly COMPACT_DENSITY = 1.8;
+    private readonly MIN_INFILTRATION = 0.3;
+    private readonly RAIN_RATE = 1.5; // Moisture per second at full rain intensity
+    // Surface water and runoff
+    private readonly INFILTRATION_RATE = 1.0;    // Surface water per second loose, level soil soaks up (or drains past when saturated)
+    private readonly SLOPE_RUNOFF = 5;           // Soaking in is divided by (1 + slope * SLOPE_RUNOFF)
+    private readonly SURFACE_FLOW_RATE = 20;     // Share of surface water per second per metre of drop that flows to a neighbour
+    private readonly PONDING_DEPTH = 0.002;      // Metres of standing water per unit of surface water
+    private readonly SURFACE_EVAPORATION_RATE = 0.01;
+    private readonly SEEPAGE_RATE = 0.7;           // Share of soil water per second per metre of drop that seeps downhill
     private readonly DIFFUSION_RATE = 0.1;
     private readonly SOIL_EVAPORATION_RATE = 0.002;
     private readonly SHADOW_EVAP_MULTIPLIER = 0.2;
+    // updateCoarse() runs one diffusion pass per fixed tick its step covers, up to this many
+    private readonly MAX_COARSE_DIFFUSION_PASSES = 40;
+
+    // Soil generation
+    private readonly SOIL_NOISE_SCALE = 0.08; // Noise frequency per metre (lower = larger soil zones)
+    private readonly SOIL_HEIGHT_BIAS = 0.4;  // How much sandier the highest cell is than the lowest
+
+    // Temperature Parameters
+    private readonly SUN_HEATING = 8; // °C above air for bare soil in full sun
+    private readonly SOIL_HEAT_RATE = 0.5; // Fraction of the gap to its target dry soil closes per game-hour
+    private readonly MOISTURE_HEAT_BUFFER = 50; // Moisture at which soil responds half as fast
+    private readonly SHADE_SAMPLES_PER_TICK = 25; // Whole grid re-sampled every 100 ticks
+    private readonly EVAPORATION_REFERENCE_TEMPERATURE = 20; // °C at which evaporation runs at its base rate
+    private readonly EVAPORATION_PER_DEGREE = 0.05;
+    private readonly EVAPORATION_PER_WIND_SPEED = 0.03; // Extra evaporation per m/s of wind
+
+    // How much of the precipitation intensity reaches the soil as water (snow and hail lie a while first)
+    private readonly PRECIPITATION_WATER: Record<PrecipitationType, number> = { none: 0, rain: 1, snow: 0.3, hail: 0.5 };
 
     // --- CPU Simulation State ---
     private moistureData: Float32Array;
     private nextMoistureData: Float32Array;
-    private nitrogenData: Float32Array;
-    private nextNitrogenData: Float32Array;
+    private nutrientData: Record<Nutrient, Float32Array>;
+    private nextNutrientData: Record<Nutrient, Float32Array>;
+    private phData: Float32Array;
+    private nextPhData: Float32Array;
+    private densityData: Float32Array;
+    private surfaceWaterData: Float32Array;
+    private nextSurfaceWaterData: Float32Array;
+    private groundData: Uint8Array;
+    // 1 where the ground type doesn't diffuse (derived from groundData)
+    private sealedData: Uint8Array;
+    // Clay and sand fractions, generated with the garden and fixed after
+    private clayData: Float32Array;
+    private sandData: Float32Array;
+    // Index into SOIL_TEXTURES and its diffusion multiplier (derived from the fractions)
+    private textureData: Uint8Array;
+    private diffusivityData: Float32Array;
+    // Terrain height (m) and slope (rise over run) at each cell centre (derived, not saved)
+    private heightData: Float32Array;
+    private slopeData: Float32Array;
+    private temperatureData: Float32Array;
+    private temperatureInitialized: boolean = false;
+    // 1 where the last sample found the cell in shadow (derived, not saved)
+    private shadeData: Float32Array;
+    private shadeCursor: number = 0;
 
     // --- GPU Visualization ---
     // RawTexture holds simulation state (uploaded from CPU)
     private stateTexture!: BABYLON.RawTexture;
     private stateTextureData: Float32Array;
+    // Second RawTexture for the other channels (R = phosphorus, G = potassium, B = surface water, A = ground type)
+    private nutrientTexture!: BABYLON.RawTexture;
+    private nutrientTextureData: Float32Array;
 
     // CustomProceduralTexture for visualization (converts state to colors)
     private visTexture!: BABYLON.CustomProceduralTexture;
 
     // Time references
     private timeSystem: TimeSystem | null = null;
+    private lightingSystem: LightingSystem | null = null;
 
     // Highlighting
     private highlightMesh!: BABYLON.Mesh;
     private textureDirty: boolean = true;
 
+    // Overlays (0 = off, 1 = moisture, 2-6 = the SOIL_OVERLAYS in order)
+    private overlayMode: number = 0;
+
     private debugTimer: number = 0;
+    public debugLogging: boolean = true;
 
     constructor(world: World) {
         super(world, SystemType.FIXED);
         const gameEngine = Engine.getInstance();
         this.scene = gameEngine.getScene();
         this.groundMaterial = gameEngine.getGroundMaterial();
+        this.headless = gameEngine.isHeadless();
 
         const size = this.GRID_SIZE;
         const totalPixels = size * size;
@@ -62,13 +190,37 @@ export class SoilSystem extends System {
         // Initialize CPU Buffers
         this.moistureData = new Float32Array(totalPixels);
         this.nextMoistureData = new Float32Array(totalPixels);
-        this.nitrogenData = new Float32Array(totalPixels);
-        this.nextNitrogenData = new Float32Array(totalPixels);
+        const nutrientGrids = () => ({
+            nitrogen: new Float32Array(totalPixels),
+            phosphorus: new Float32Array(totalPixels),
+            potassium: new Float32Array(totalPixels),
+        });
+        this.nutrientData = nutrientGrids();
+        this.nextNutrientData = nutrientGrids();
+        this.phData = new Float32Array(totalPixels);
+        this.nextPhData = new Float32Array(totalPixels);
+        this.densityData = new Float32Array(totalPixels);
+        this.surfaceWaterData = new Float32Array(totalPixels);
+        this.nextSurfaceWaterData = new Float32Array(totalPixels);
+        this.groundData = new Uint8Array(totalPixels);
+        this.sealedData = new Uint8Array(totalPixels);
+        this.clayData = new Float32Array(totalPixels);
+        this.sandData = new Float32Array(totalPixels);
+        this.textureData = new Uint8Array(totalPixels);
+        this.diffusivityData = new Float32Array(totalPixels);
+        this.heightData = new Float32Array(totalPixels);
+        this.slopeData = new Float32Array(totalPixels);
+        this.temperatureData = new Float32Array(totalPixels);
+        this.shadeData = new Float32Array(totalPixels);
         this.stateTextureData = new Float32Array(totalPixels * 4); // RGBA
+        this.nutrientTextureData = new Float32Array(totalPixels * 4);
 
         // Initialize soil
+        this.initializeTerrain(gameEngine);
         this.initializeSoil();
 
+        if (this.headless) return;
+
         // Initialize GPU resources
         this.initializeTextures();
         this.initializeHighlight();
@@ -85,7 +237,8 @@ export class SoilSystem extends System {
     private initializeTextures(): void {
         const size = this.GRID_SIZE;
 
-        // State texture (CPU -> GPU, holds moisture/nitrogen as RGBA floats)
+        // State texture (CPU -> GPU, holds moisture/nitrogen/pH/density as RGBA floats)
+        // and nutrient texture (phosphorus/potassium)
         this.stateTexture = new BABYLON.RawTexture(
             this.stateTextureData,
             size,
@@ -100,6 +253,20 @@ export class SoilSystem extends System {
         this.stateTexture.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
         this.stateTexture.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
 
+        this.nutrientTexture = new BABYLON.RawTexture(
+            this.nutrientTextureData,
+            size,
+            size,
+            BABYLON.Engine.TEXTUREFORMAT_RGBA,
+            this.scene,
+            false,
+            false,
+            BABYLON.Texture.BILINEAR_SAMPLINGMODE,
+            BABYLON.Constants.TEXTURETYPE_FLOAT
+        );
+        this.nutrientTexture.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+        this.nutrientTexture.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+
         // Visualization texture (GPU shader converts state to colors)
         // High resolution for detailed noise
         const visSize = 1024;
@@ -111,24 +278,106 @@ export class SoilSystem extends System {
         );
         this.visTexture.refreshRate = 1; // Render every frame
         this.visTexture.setTexture("uSimulation", this.stateTexture);
-        this.visTexture.setFloat("uOverlayEnabled", 0.0);
+        this.visTexture.setTexture("uNutrients", this.nutrientTexture);
+        this.visTexture.setFloat("uOverlayMode", 0.0);
+        this.visTexture.setFloat("uGridSize", size);
     }
 
+    private initializeTerrain(gameEngine: Engine): void {
+        const size = this.GRID_SIZE;
+        for (let i = 0; i < this.heightData.length; i++) {
+            const cellX = (i % size) - this.HALF_SIZE;
+            const cellZ = Math.floor(i / size) - this.HALF_SIZE;
+            this.heightData[i] = gameEngine.getTerrainHeightAt((cellX + 0.5) * this.CELL_SIZE, (cellZ + 0.5) * this.CELL_SIZE);
+        }
+
+        // Central differences (one-sided at the edges)
+        for (let z = 0; z < size; z++) {
+            for (let x = 0; x < size; x++) {
+                const left = z * size + Math.max(0, x - 1);
+                const right = z * size + Math.min(size - 1, x + 1);
+                const down = Math.max(0, z - 1) * size + x;
+                const up = Math.min(size - 1, z + 1) * size + x;
+                const dx = (this.heightData[right] - this.heightData[left]) / ((right - left) * this.CELL_SIZE);
+                const dz = (this.heightData[up] - this.heightData[down]) / (((up - down) / size) * this.CELL_SIZE);
+                this.slopeData[z * size + x] = Math.hypot(dx, dz);
+            }
+        }
+    }
+
+    /**
+     * Generate the starting soil from the world's "soil" stream. Texture comes
+     * first (terrain height shifts it towards sand on the ridges and clay in
+     * the valleys); nutrients are then scaled by its fertility and density
+     * starts near its typical value.
+     */
     private initializeSoil(): void {
+        const random = this.world.random.stream("soil");
+        const noiseSeed = () => Math.floor(random.next() * 233280);
+        const clayNoise = new PerlinNoise(noiseSeed());
+        const sandNoise = new PerlinNoise(noiseSeed());
+        const nutrientNoise = new PerlinNoise(noiseSeed());
+        const chemistryNoise = new PerlinNoise(noiseSeed());
+
+        let minHeight = Infinity;
+        let maxHeight = -Infinity;
+        for (const height of this.heightData) {
+            minHeight = Math.min(minHeight, height);
+            maxHeight = Math.max(maxHeight, height);
+        }
+        const heightRange = Math.max(0.001, maxHeight - minHeight);
+
         for (let x = -this.HALF_SIZE; x < this.HALF_SIZE; x++) {
             for (let z = -this.HALF_SIZE; z < this.HALF_SIZE; z++) {
-                const moistureNoise = Math.sin(x * 0.2) * Math.cos(z * 0.2) * 10;
-                const baseMoisture = 20 + moistureNoise;
-                const nitrogenNoise = Math.cos(x * 0.15) * Math.sin(z * 0.15) * 7;
-                const baseNitrogen = 15 + nitrogenNoise;
-
                 const index = this.getIndex(x, z);
-                if (index !== -1) {
-                    this.moistureData[index] = Math.max(5, Math.min(35, baseMoisture));
-                    this.nitrogenData[index] = Math.max(5, Math.min(30, baseNitrogen));
+                if (index === -1) continue;
+
+                const nx = (x + 0.5) * this.CELL_SIZE * this.SOIL_NOISE_SCALE;
+                const nz = (z + 0.5) * this.CELL_SIZE * this.SOIL_NOISE_SCALE;
+                // -0.5 in the lowest cell, 0.5 on the highest
+                const elevation = (this.heightData[index] - minHeight) / heightRange - 0.5;
+
+                let sand = Math.max(0.05, Math.min(0.9, 0.4 + sandNoise.fbm(nx, nz, 3) * 1.6 + elevation * this.SOIL_HEIGHT_BIAS));
+                let clay = Math.max(0.03, Math.min(0.6, 0.2 + clayNoise.fbm(nx, nz, 3) * 1.0 - elevation * this.SOIL_HEIGHT_BIAS * 0.6));
+                if (clay + sand > 0.97) {
+                    const scale = 0.97 / (clay + sand);
+                    clay *= scale;
+                    sand *= scale;
                 }
+                this.clayData[index] = clay;
+                this.sandData[index] = sand;
+                const texture = SOIL_TEXTURE_DEFINITIONS[classifySoilTexture(clay, sand)];
+
+                // Each nutrient samples the same noise far apart, so their patches don't line up
+                const nutrient = (offset: number) => nutrientNoise.fbm(nx + offset, nz + offset, 3);
+                const baseMoisture = 20 + chemistryNoise.fbm(nx + 50, nz + 50, 3) * 20;
+                const baseNitrogen = (15 + nutrient(0) * 14) * texture.fertility;
+                const basePhosphorus = (12 + nutrient(40) * 12) * texture.fertility;
+                const basePotassium = (18 + nutrient(80) * 16) * texture.fertility;
+                const basePh = 6.6 + chemistryNoise.fbm(nx, nz, 3) * 1.6;
+                const baseDensity = texture.density + chemistryNoise.fbm(nx + 120, nz + 120, 3) * 0.3;
+
+                this.moistureData[index] = Math.max(5, Math.min(35, baseMoisture));
+                this.nutrientData.nitrogen[index] = Math.max(5, Math.min(30, baseNitrogen));
+                this.nutrientData.phosphorus[index] = Math.max(3, Math.min(25, basePhosphorus));
+                this.nutrientData.potassium[index] = Math.max(5, Math.min(30, basePotassium));
+                this.phData[index] = basePh;
+                this.densityData[index] = baseDensity;
             }
         }
+        this.classifyTextures();
+    }
+
+    /**
+     * Derive each cell's texture class (and its diffusion multiplier) from the
+     * clay and sand fractions.
+     */
+    private classifyTextures(): void {
+        for (let i = 0; i < this.textureData.length; i++) {
+            const texture = classifySoilTexture(this.clayData[i], this.sandData[i]);
+            this.textureData[i] = SOIL_TEXTURES.indexOf(texture);
+            this.diffusivityData[i] = SOIL_TEXTURE_DEFINITIONS[texture].diffusion;
+        }
     }
 
     private initializeHighlight(): void {
@@ -178,6 +427,67 @@ export class SoilSystem extends System {
         return total;
     }
 
+    public getTotalSurfaceWater(): number {
+        let total = 0;
+        for (let i = 0; i < this.surfaceWaterData.length; i++) {
+            total += this.surfaceWaterData[i];
+        }
+        return total;
+    }
+
+    public getTotalNutrient(nutrient: Nutrient): number {
+        const data = this.nutrientData[nutrient];
+        let total = 0;
+        for (let i = 0; i < data.length; i++) {
+            total += data[i];
+        }
+        return total;
+    }
+
+    // --- Persistence ---
+
+    public getSnapshot(): SoilSnapshot {
+        return {
+            gridSize: this.GRID_SIZE,
+            moisture: Array.from(this.moistureData),
+            nitrogen: Array.from(this.nutrientData.nitrogen),
+            phosphorus: Array.from(this.nutrientData.phosphorus),
+            potassium: Array.from(this.nutrientData.potassium),
+            ph: Array.from(this.phData),
+            density: Array.from(this.densityData),
+            surfaceWater: Array.from(this.surfaceWaterData),
+            ground: Array.from(this.groundData),
+            clay: Array.from(this.clayData),
+            sand: Array.from(this.sandData),
+            temperature: Array.from(this.temperatureData),
+        };
+    }
+
+    public loadSnapshot(snapshot: SoilSnapshot): void {
+        if (snapshot.gridSize !== this.GRID_SIZE) {
+            throw new Error(`Soil grid size mismatch: save has ${snapshot.gridSize}, world has ${this.GRID_SIZE}`);
+        }
+        this.moistureData.set(snapshot.moisture);
+        for (const nutrient of NUTRIENTS) {
+            this.nutrientData[nutrient].set(snapshot[nutrient]);
+        }
+        this.phData.set(snapshot.ph);
+        this.densityData.set(snapshot.density);
+        this.surfaceWaterData.set(snapshot.surfaceWater);
+        this.groundData.set(snapshot.ground);
+        for (let i = 0; i < this.groundData.length; i++) {
+            this.sealedData[i] = this.getGroundRules(i).diffuses ? 0 : 1;
+        }
+        this.clayData.set(snapshot.clay);
+        this.sandData.set(snapshot.sand);
+        this.classifyTextures();
+        this.temperatureData.set(snapshot.temperature);
+        this.temperatureInitialized = true;
+        this.shadeData.fill(0);
+        this.textureDirty = true;
+        this.updateStateTexture();
+    }
+
     // --- Public API (Reading) ---
 
     public getMoistureAt(x: number, z: number): number {
@@ -193,95 +503,276 @@ export class SoilSystem extends System {
         return this.moistureData[index];
     }
 
-    public getNitrogenAt(x: number, z: number): number {
+    /**
+     * Standing water (moisture units) at a world position.
+     */
+    public getSurfaceWaterAt(x: number, z: number): number {
         const { cellX, cellZ } = this.getCellCoords(x, z);
         const index = this.getIndex(cellX, cellZ);
         if (index === -1) return 0;
-        return this.nitrogenData[index];
+        return this.surfaceWaterData[index];
     }
 
-    public getNitrogenAtCell(cellX: number, cellZ: number): number {
+    public getGroundAt(x: number, z: number): GroundType {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return "soil";
+        return GROUND_TYPES[this.groundData[index]];
+    }
+
+    /**
+     * Whether a seed can go in at a world position (inside the grid, on
+     * plantable ground).
+     */
+    public isPlantableAt(x: number, z: number): boolean {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        return index !== -1 && this.getGroundRules(index).plantable;
+    }
+
+    private getGroundRules(index: number): GroundDefinition {
+        return GROUND_DEFINITIONS[GROUND_TYPES[this.groundData[index]]];
+    }
+
+    public getSoilTextureAt(x: number, z: number): SoilTexture {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return "loam";
+        return SOIL_TEXTURES[this.textureData[index]];
+    }
+
+    /**
+     * Clay, silt and sand fractions (0-1, summing to 1) at a world position.
+     */
+    public getTextureFractionsAt(x: number, z: number): { clay: number; silt: number; sand: number } {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return { clay: 0, silt: 0, sand: 0 };
+        const clay = this.clayData[index];
+        const sand = this.sandData[index];
+        return { clay, silt: 1 - clay - sand, sand };
+    }
+
+    private getTextureRules(index: number): SoilTextureDefinition {
+        return SOIL_TEXTURE_DEFINITIONS[SOIL_TEXTURES[this.textureData[index]]];
+    }
+
+    /**
+     * Depth (m) of standing water at a world position.
+     */
+    public getPondingDepthAt(x: number, z: number): number {
+        return this.getSurfaceWaterAt(x, z) * this.PONDING_DEPTH;
+    }
+
+    /**
+     * Terrain slope (rise over run) at a world position.
+     */
+    public getSlopeAt(x: number, z: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
         const index = this.getIndex(cellX, cellZ);
         if (index === -1) return 0;
-        return this.nitrogenData[index];
+        return this.slopeData[index];
     }
 
-    // --- Public API (Writing) ---
+    public getNutrientAt(nutrient: Nutrient, x: number, z: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        return this.getNutrientAtCell(nutrient, cellX, cellZ);
+    }
 
-    public modifyMoistureAt(x: number, z: number, amount: number): void {
+    public getNutrientAtCell(nutrient: Nutrient, cellX: number, cellZ: number): number {
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return 0;
+        return this.nutrientData[nutrient][index];
+    }
+
+    public getPhAt(x: number, z: number): number {
         const { cellX, cellZ } = this.getCellCoords(x, z);
+        return this.getPhAtCell(cellX, cellZ);
+    }
+
+    public getPhAtCell(cellX: number, cellZ: number): number {
         const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return 7;
+        return this.phData[index];
+    }
 
-        if (index !== -1) {
-            const currentSoil = this.moistureData[index];
-            if (amount > 0) {
-                this.moistureData[index] = Math.min(this.SATURATION_THRESHOLD, currentSoil + amount);
-            } else {
-                this.moistureData[index] = Math.max(0, currentSoil + amount);
-            }
-            this.textureDirty = true;
-        }
+    /**
+     * Bulk density (g/cm³) at a world position.
+     */
+    public getDensityAt(x: number, z: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        return this.getDensityAtCell(cellX, cellZ);
+    }
+
+    public getDensityAtCell(cellX: number, cellZ: number): number {
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return this.LOOSE_DENSITY;
+        return this.densityData[index];
+    }
+
+    /**
+     * Share (0.3-1) of the water landing on soil of this density that soaks
+     * in rather than running off.
+     */
+    public getInfiltration(density: number): number {
+        const compaction = (density - this.LOOSE_DENSITY) / (this.COMPACT_DENSITY - this.LOOSE_DENSITY);
+        return 1 - (1 - this.MIN_INFILTRATION) * Math.max(0, Math.min(1, compaction));
     }
 
-    public modifyNitrogenAt(x: number, z: number, amount: number): void {
+    public getTemperatureAt(x: number, z: number): number {
         const { cellX, cellZ } = this.getCellCoords(x, z);
+        return this.getTemperatureAtCell(cellX, cellZ);
+    }
+
+    public getTemperatureAtCell(cellX: number, cellZ: number): number {
         const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return this.timeSystem?.getAirTemperature() ?? 0;
+        return this.temperatureData[index];
+    }
 
-        if (index !== -1) {
-            const current = this.nitrogenData[index];
-            const newVal = Math.max(0, Math.min(100, current + amount));
-            this.nitrogenData[index] = newVal;
-            this.textureDirty = true;
+    /**
+     * Multiplier on evaporation and transpiration at a temperature (°C):
+     * 1 at 20°C, +5% per degree above, down to 10% in the cold, and 3% more
+     * per m/s of wind.
+     */
+    public getEvaporationFactor(temperature: number): number {
+        const thermal = Math.max(0.1, 1 + (temperature - this.EVAPORATION_REFERENCE_TEMPERATURE) * this.EVAPORATION_PER_DEGREE);
+        if (!this.timeSystem) return thermal;
+        const { wind } = this.timeSystem.getWeather();
+        return thermal * (1 + Math.hypot(wind.x, wind.z) * this.EVAPORATION_PER_WIND_SPEED);
+    }
+
+    /**
+     * Moisture per second the current precipitation adds to every cell
+     * (before saturation).
+     */
+    public getPrecipitationRate(): number {
+        if (!this.timeSystem) return 0;
+        const { precipitation, precipitationType } = this.timeSystem.getWeather();
+        return precipitation * this.PRECIPITATION_WATER[precipitationType] * this.RAIN_RATE;
+    }
+
+    // --- Public API (Writing) ---
+
+    /**
+     * Add (or remove) moisture at a world position. Returns the change actually
+     * applied after clamping, so callers can record and reverse it.
+     */
+    public modifyMoistureAt(x: number, z: number, amount: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return 0;
+
+        const currentSoil = this.moistureData[index];
+        if (amount > 0) {
+            this.moistureData[index] = Math.min(this.SATURATION_THRESHOLD, currentSoil + amount);
+        } else {
+            this.moistureData[index] = Math.max(0, currentSoil + amount);
         }
+        this.textureDirty = true;
+        return this.moistureData[index] - currentSoil;
     }
 
-    public absorbWater(worldX: number, worldZ: number, radius: number, maxAmount: number): number {
-        const { cellX: centerX, cellZ: centerZ } = this.getCellCoords(worldX, worldZ);
-        const cellRadius = Math.ceil(radius / this.CELL_SIZE);
+    /**
+     * Water a world position. Only the share the soil's density and ground
+     * type let in arrives; returns the change applied, as modifyMoistureAt does.
+     */
+    public infiltrateWaterAt(x: number, z: number, amount: number): number {
+        const groundInfiltration = Math.min(1, GROUND_DEFINITIONS[this.getGroundAt(x, z)].infiltration);
+        return this.modifyMoistureAt(x, z, amount * this.getInfiltration(this.getDensityAt(x, z)) * groundInfiltration);
+    }
 
-        let totalAvailable = 0;
-        const cellsInRange: { index: number; moisture: number }[] = [];
+    /**
+     * Paint a ground type on the cell at a world position. Returns the type it
+     * replaced and the moisture change the new type's rules forced (null
+     * outside the grid), so callers can record and reverse both.
+     */
+    public setGroundAt(x: number, z: number, ground: GroundType): { previous: GroundType; moistureDelta: number } | null {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return null;
 
-        for (let dx = -cellRadius; dx <= cellRadius; dx++) {
-            for (let dz = -cellRadius; dz <= cellRadius; dz++) {
-                const cx = centerX + dx;
-                const cz = centerZ + dz;
-                const dist = Math.sqrt(dx * dx + dz * dz);
-                if (dist > cellRadius) continue;
+        const previous = GROUND_TYPES[this.groundData[index]];
+        const moisture = this.moistureData[index];
+        this.groundData[index] = GROUND_TYPES.indexOf(ground);
+        this.sealedData[index] = GROUND_DEFINITIONS[ground].diffuses ? 0 : 1;
+        this.applyGroundRules();
+        this.textureDirty = true;
+        return { previous, moistureDelta: this.moistureData[index] - moisture };
+    }
 
-                const index = this.getIndex(cx, cz);
-                if (index === -1) continue;
+    /**
+     * Add (or remove) a nutrient at a world position. Returns the clamped change.
+     */
+    public modifyNutrientAt(nutrient: Nutrient, x: number, z: number, amount: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return 0;
 
-                const moisture = this.moistureData[index];
-                if (moisture > 0) {
-                    cellsInRange.push({ index, moisture });
-                    totalAvailable += moisture;
-                }
-            }
-        }
+        const data = this.nutrientData[nutrient];
+        const current = data[index];
+        data[index] = Math.max(0, Math.min(this.MAX_NUTRIENT, current + amount));
+        this.textureDirty = true;
+        return data[index] - current;
+    }
 
-        if (totalAvailable === 0 || cellsInRange.length === 0) return 0;
+    /**
+     * Shift the pH at a world position. Returns the clamped change.
+     */
+    public modifyPhAt(x: number, z: number, amount: number): number {
+        return this.modifyField(this.phData, x, z, amount, this.MIN_PH, this.MAX_PH);
+    }
 
-        const toAbsorb = Math.min(maxAmount, totalAvailable * 0.5);
-        let absorbed = 0;
+    /**
+     * Compact (positive) or loosen (negative) the soil at a world position.
+     * Returns the clamped change.
+     */
+    public modifyDensityAt(x: number, z: number, amount: number): number {
+        return this.modifyField(this.densityData, x, z, amount, this.MIN_DENSITY, this.MAX_DENSITY);
+    }
 
-        for (const cell of cellsInRange) {
-            const share = (cell.moisture / totalAvailable) * toAbsorb;
-            const newMoisture = Math.max(0, cell.moisture - share);
-            this.moistureData[cell.index] = newMoisture;
-            absorbed += share;
-        }
+    private modifyField(data: Float32Array, x: number, z: number, amount: number, min: number, max: number): number {
+        const { cellX, cellZ } = this.getCellCoords(x, z);
+        const index = this.getIndex(cellX, cellZ);
+        if (index === -1) return 0;
 
+        const current = data[index];
+        data[index] = Math.max(min, Math.min(max, current + amount));
         this.textureDirty = true;
-        return absorbed;
+        return data[index] - current;
     }
 
-    public absorbNitrogen(worldX: number, worldZ: number, radius: number, maxAmount: number): number {
+    public absorbWater(worldX: number, worldZ: number, radius: number, maxAmount: number): number {
+        return this.absorbFrom(this.moistureData, worldX, worldZ, radius, maxAmount);
+    }
+
+    /**
+     * Take up a nutrient like absorbWater, counting only the share each cell's
+     * pH makes available.
+     */
+    public absorbNutrient(nutrient: Nutrient, worldX: number, worldZ: number, radius: number, maxAmount: number): number {
+        return this.absorbFrom(this.nutrientData[nutrient], worldX, worldZ, radius, maxAmount,
+            index => getNutrientAvailability(nutrient, this.phData[index]));
+    }
+
+    /**
+     * Take up to maxAmount (and at most half of what's available) from the
+     * cells within radius, in proportion to how much each has available.
+     * `availability` gives the share of a cell's amount roots can reach.
+     */
+    private absorbFrom(
+        data: Float32Array,
+        worldX: number,
+        worldZ: number,
+        radius: number,
+        maxAmount: number,
+        availability?: (index: number) => number,
+    ): number {
         const { cellX: centerX, cellZ: centerZ } = this.getCellCoords(worldX, worldZ);
         const cellRadius = Math.ceil(radius / this.CELL_SIZE);
 
         let totalAvailable = 0;
-        const cellsInRange: { index: number; nitrogen: number }[] = [];
+        const cellsInRange: { index: number; amount: number }[] = [];
 
         for (let dx = -cellRadius; dx <= cellRadius; dx++) {
             for (let dz = -cellRadius; dz <= cellRadius; dz++) {
@@ -293,10 +784,10 @@ export class SoilSystem extends System {
                 const index = this.getIndex(cx, cz);
                 if (index === -1) continue;
 
-                const nitrogen = this.nitrogenData[index];
-                if (nitrogen > 0) {
-                    cellsInRange.push({ index, nitrogen });
-                    totalAvailable += nitrogen;
+                const amount = availability ? data[index] * availability(index) : data[index];
+                if (amount > 0) {
+                    cellsInRange.push({ index, amount });
+                    totalAvailable += amount;
                 }
             }
         }
@@ -307,9 +798,8 @@ export class SoilSystem extends System {
         let absorbed = 0;
 
         for (const cell of cellsInRange) {
-            const share = (cell.nitrogen / totalAvailable) * toAbsorb;
-            const newNitrogen = Math.max(0, cell.nitrogen - share);
-            this.nitrogenData[cell.index] = newNitrogen;
+            const share = (cell.amount / totalAvailable) * toAbsorb;
+            data[cell.index] = Math.max(0, data[cell.index] - share);
             absorbed += share;
         }
 
@@ -318,6 +808,7 @@ export class SoilSystem extends System {
     }
 
     public showHighlight(x: number, z: number, visible: boolean): void {
+        if (this.headless) return;
         if (!visible) {
             this.highlightMesh.isVisible = false;
             return;
@@ -334,8 +825,27 @@ export class SoilSystem extends System {
     }
 
     public setWaterOverlay(enabled: boolean): void {
-        this.visTexture.setFloat("uOverlayEnabled", enabled ? 1.0 : 0.0);
+        this.setOverlayMode(enabled ? 1 : 0);
+    }
 
+    /**
+     * Show one soil layer's heatmap on the ground (null turns it off).
+     * Replaces the water overlay if it was on.
+     */
+    public setSoilOverlay(overlay: SoilOverlay | null): void {
+        this.setOverlayMode(overlay ? 2 + SOIL_OVERLAYS.indexOf(overlay) : 0);
+    }
+
+    public getSoilOverlay(): SoilOverlay | null {
+        return this.overlayMode >= 2 ? SOIL_OVERLAYS[this.overlayMode - 2] : null;
+    }
+
+    private setOverlayMode(mode: number): void {
+        this.overlayMode = mode;
+        if (this.headless) return;
+        this.visTexture.setFloat("uOverlayMode", mode);
+
+        const enabled = mode !== 0;
         if (this.groundMaterial) {
             if (enabled) {
                 this.groundMaterial.diffuseTexture = null;
@@ -354,6 +864,7 @@ export class SoilSystem extends System {
     // --- Update State Texture (CPU -> GPU) ---
 
     private updateStateTexture(): void {
+        if (this.headless) return;
         const size = this.GRID_SIZE;
 
         for (let i = 0; i < this.moistureData.length; i++) {
@@ -363,41 +874,42 @@ export class SoilSystem extends System {
             const imgY = z;
             const texIndex = (imgY * size + x) * 4;
 
-            this.stateTextureData[texIndex] = this.moistureData[i];     // R = Moisture
-            this.stateTextureData[texIndex + 1] = this.nitrogenData[i]; // G = Nitrogen
-            this.stateTextureData[texIndex + 2] = 0;                    // B = unused
-            this.stateTextureData[texIndex + 3] = 1;                    // A = 1
+            this.stateTextureData[texIndex] = this.moistureData[i];                // R = Moisture
+            this.stateTextureData[texIndex + 1] = this.nutrientData.nitrogen[i];   // G = Nitrogen
+            this.stateTextureData[texIndex + 2] = this.phData[i];                  // B = pH
+            this.stateTextureData[texIndex + 3] = this.densityData[i];             // A = Density
+
+            this.nutrientTextureData[texIndex] = this.nutrientData.phosphorus[i];  // R = Phosphorus
+            this.nutrientTextureData[texIndex + 1] = this.nutrientData.potassium[i]; // G = Potassium
+            this.nutrientTextureData[texIndex + 2] = this.surfaceWaterData[i];    // B = Surface water
+            this.nutrientTextureData[texIndex + 3] = this.groundData[i];         // A = Ground type
         }
 
         this.stateTexture.update(this.stateTextureData);
+        this.nutrientTexture.update(this.nutrientTextureData);
         this.textureDirty = false;
     }
 
     // --- System Update ---
 
     public update(deltaTime: number): void {
-        if (!this.timeSystem) {
-            const timeSystem = this.world.getSystem(TimeSystem);
-            if (timeSystem) this.timeSystem = timeSystem as TimeSystem;
-        }
+        this.resolveTimeSystem();
 
-        // Apply rain
-        if (this.timeSystem && this.timeSystem.rainIntensity > 0) {
-            const rainAmount = this.timeSystem.rainIntensity * 1.5 * deltaTime;
-            for (let i = 0; i < this.moistureData.length; i++) {
-                const current = this.moistureData[i];
-                if (current < this.SATURATION_THRESHOLD) {
-                    this.moistureData[i] = Math.min(this.SATURATION_THRESHOLD, current + rainAmount);
-                }
-            }
-            this.textureDirty = true;
-        }
+        // Apply rain, then let surface water soak in and run downhill
+        this.applyRain(deltaTime);
+        this.infiltrate(deltaTime);
+        this.flowSurfaceWater(deltaTime);
 
         // Run CPU diffusion
         this.diffuse(deltaTime);
 
-        // Run CPU evaporation
+        // Soil temperature (shade samples need shadow raycasts, so only live ticks refresh them)
+        this.sampleShade();
+        this.updateTemperature(deltaTime);
+
+        // Run CPU evaporation, then hold ponds and paving at their fixed moisture
         this.evaporate(deltaTime);
+        this.applyGroundRules();
 
         // Upload to GPU if dirty
         if (this.textureDirty) {
@@ -406,12 +918,169 @@ export class SoilSystem extends System {
 
         // Debug
         this.debugTimer += deltaTime;
-        if (this.debugTimer > 1.0) {
+        if (this.debugLogging && this.debugTimer > 1.0) {
             this.debugTimer = 0;
             this.logStats();
         }
     }
 
+    /**
+     * Coarse step for offline catch-up (see CatchUpSimulation): the same rain
+     * and evaporation for a long deltaTime, one tick-sized diffusion pass per
+     * fixed tick the step covers (so water and nutrients spread as far as they
+     * would live), and no GPU upload or logging. The texture is uploaded by the
+     * next regular update.
+     */
+    public updateCoarse(deltaTime: number): void {
+        this.resolveTimeSystem();
+        this.applyRain(deltaTime);
+        this.infiltrate(deltaTime);
+        this.flowSurfaceWater(deltaTime);
+        const tickDt = 1 / GameLoop.TICK_RATE;
+        const passes = Math.min(this.MAX_COARSE_DIFFUSION_PASSES, Math.max(1, Math.round(deltaTime / tickDt)));
+        for (let i = 0; i < passes; i++) {
+            this.diffuse(tickDt);
+        }
+        this.updateTemperature(deltaTime);
+        this.evaporate(deltaTime);
+        this.applyGroundRules();
+    }
+
+    private resolveTimeSystem(): void {
+        if (!this.timeSystem) {
+            const timeSystem = this.world.getSystem(TimeSystem);
+            if (timeSystem) this.timeSystem = timeSystem as TimeSystem;
+        }
+    }
+
+    private applyRain(deltaTime: number): void {
+        const rainAmount = this.getPrecipitationRate() * deltaTime;
+        if (rainAmount <= 0) return;
+
+        for (let i = 0; i < this.surfaceWaterData.length; i++) {
+            this.surfaceWaterData[i] += rainAmount;
+        }
+        this.textureDirty = true;
+    }
+
+    /**
+     * Soak surface water in at the cell's rate (higher in sand, lower in clay,
+     * when compacted or when steep). It fills the soil up to saturation; the rest drains on past the
+     * topsoil and leaves the simulation.
+     */
+    private infiltrate(deltaTime: number): void {
+        for (let i = 0; i < this.surfaceWaterData.length; i++) {
+            const surface = this.surfaceWaterData[i];
+            if (surface <= 0) continue;
+
+            const rate = this.INFILTRATION_RATE * this.getInfiltration(this.densityData[i])
+                * this.getGroundRules(i).infiltration * this.getTextureRules(i).drainage
+                / (1 + this.slopeData[i] * this.SLOPE_RUNOFF);
+            const soaked = Math.min(surface, rate * deltaTime);
+            const room = Math.max(0, this.SATURATION_THRESHOLD - this.moistureData[i]);
+            this.surfaceWaterData[i] = surface - soaked;
+            this.moistureData[i] += Math.min(soaked, room);
+            this.textureDirty = true;
+        }
+    }
+
+    /**
+     * Send surface water to lower neighbours, in proportion to how far the
+     * water surface (terrain plus ponding depth) drops towards each. A cell
+     * never sends more than would level it with a neighbour, so hollows fill
+     * up to a flat pond. The fence holds water in at the edges.
+     */
+    private flowSurfaceWater(deltaTime: number): void {
+        const size = this.GRID_SIZE;
+        const surface = this.surfaceWaterData;
+        const next = this.nextSurfaceWaterData;
+        next.set(surface);
+
+        let flowing = false;
+        const drops = [0, 0, 0, 0];
+        const neighbors = [0, 0, 0, 0];
+        for (let z = 0; z < size; z++) {
+            for (let x = 0; x < size; x++) {
+                const index = z * size + x;
+                const water = surface[index];
+                if (water <= 0) continue;
+
+                const level = this.heightData[index] + water * this.PONDING_DEPTH;
+                let count = 0;
+                const consider = (nIndex: number) => {
+                    const drop = level - (this.heightData[nIndex] + surface[nIndex] * this.PONDING_DEPTH);
+                    if (drop > 0) {
+                        drops[count] = drop;
+                        neighbors[count] = nIndex;
+                        count++;
+                    }
+                };
+                if (x > 0) consider(index - 1);
+                if (x < size - 1) consider(index + 1);
+                if (z > 0) consider(index - size);
+                if (z < size - 1) consider(index + size);
+                if (count === 0) continue;
+
+                // Each share is capped at half the drop (which would level the two cells)
+                let total = 0;
+                for (let n = 0; n < count; n++) {
+                    drops[n] = Math.min(water * this.SURFACE_FLOW_RATE * deltaTime * drops[n], drops[n] / (2 * this.PONDING_DEPTH));
+                    total += drops[n];
+                }
+                const scale = total > water ? water / total : 1;
+                for (let n = 0; n < count; n++) {
+                    const amount = drops[n] * scale;
+                    next[index] -= amount;
+                    next[neighbors[n]] += amount;
+                }
+                flowing = true;
+            }
+        }
+
+        if (!flowing) return;
+        this.surfaceWaterData = next;
+        this.nextSurfaceWaterData = surface;
+        this.textureDirty = true;
+    }
+
+    private updateTemperature(deltaTime: number): void {
+        if (!this.timeSystem) return;
+
+        const air = this.timeSystem.getAirTemperature();
+        if (!this.temperatureInitialized) {
+            this.temperatureData.fill(air);
+            this.temperatureInitialized = true;
+        }
+
+        const sunHeating = this.timeSystem.getOpenSkySunlight() * this.SUN_HEATING;
+        const rate = this.SOIL_HEAT_RATE * this.timeSystem.toGameTime(deltaTime);
+        for (let i = 0; i < this.temperatureData.length; i++) {
+            const target = air + sunHeating * (1 - this.shadeData[i]);
+            const buffering = 1 + this.moistureData[i] / this.MOISTURE_HEAT_BUFFER;
+            const current = this.temperatureData[i];
+            this.temperatureData[i] = current + (target - current) * Math.min(1, rate / buffering);
+        }
+    }
+
+    /**
+     * Raycast a few cells towards the sun each tick and remember which are in
+     * shadow. Skipped at night (there's no shadow to find) and when headless.
+     */
+    private sampleShade(): void {
+        if (!this.lightingSystem || !this.timeSystem || this.timeSystem.getOpenSkySunlight() <= 0) return;
+
+        for (let n = 0; n < this.SHADE_SAMPLES_PER_TICK; n++) {
+            const i = this.shadeCursor;
+            this.shadeCursor = (this.shadeCursor + 1) % this.shadeData.length;
+
+            const cellX = (i % this.GRID_SIZE) - this.HALF_SIZE;
+            const cellZ = Math.floor(i / this.GRID_SIZE) - this.HALF_SIZE;
+            const worldX = (cellX + 0.5) * this.CELL_SIZE;
+            const worldZ = (cellZ + 0.5) * this.CELL_SIZE;
+            this.shadeData[i] = this.lightingSystem.getSunlightIntensity(worldX, worldZ) > 0 ? 0 : 1;
+        }
+    }
+
     private logStats(): void {
         let totalMoisture = 0;
         let maxMoisture = 0;
@@ -431,93 +1100,127 @@ export class SoilSystem extends System {
     }
 
     private diffuse(deltaTime: number): void {
-        const size = this.GRID_SIZE;
         const dt = Math.min(deltaTime, 0.05);
         const diffusionRate = Math.min(0.2, this.DIFFUSION_RATE * dt * 60);
 
+        this.diffuseField(this.moistureData, this.nextMoistureData, diffusionRate, Infinity);
+        const tempMoisture = this.moistureData;
+        this.moistureData = this.nextMoistureData;
+        this.nextMoistureData = tempMoisture;
+        this.seepDownhill(dt);
+
+        for (const nutrient of NUTRIENTS) {
+            const rate = diffusionRate * NUTRIENT_DEFINITIONS[nutrient].diffusion;
+            this.diffuseField(this.nutrientData[nutrient], this.nextNutrientData[nutrient], rate, this.MAX_NUTRIENT);
+            const temp = this.nutrientData[nutrient];
+            this.nutrientData[nutrient] = this.nextNutrientData[nutrient];
+            this.nextNutrientData[nutrient] = temp;
+        }
+
+        this.diffuseField(this.phData, this.nextPhData, diffusionRate * this.PH_DIFFUSION, this.MAX_PH);
+        const tempPh = this.phData;
+        this.phData = this.nextPhData;
+        this.nextPhData = tempPh;
+
+        this.textureDirty = true;
+    }
+
+    /**
+     * Hold cells whose ground type fixes their moisture (ponds, paving).
+     */
+    private applyGroundRules(): void {
+        for (let i = 0; i < this.groundData.length; i++) {
+            if (this.groundData[i] === 0) continue;
+            const { fixedMoisture } = this.getGroundRules(i);
+            if (fixedMoisture !== null && this.moistureData[i] !== fixedMoisture) {
+                this.moistureData[i] = fixedMoisture;
+                this.textureDirty = true;
+            }
+        }
+    }
+
+    /**
+     * One explicit diffusion pass from `data` into `next`. Each pair of cells
+     * exchanges at the mean of their textures' diffusion rates. A cell never
+     * gives away more than it holds, and sealed cells exchange nothing.
+     */
+    private diffuseField(data: Float32Array, next: Float32Array, diffusionRate: number, max: number): void {
+        const size = this.GRID_SIZE;
+
         for (let z = 0; z < size; z++) {
             for (let x = 0; x < size; x++) {
                 const index = z * size + x;
-                const currentMoisture = this.moistureData[index];
-                const currentNitrogen = this.nitrogenData[index];
-
-                let moistureOutflow = 0;
-                let moistureInflow = 0;
-                let nitrogenOutflow = 0;
-                let nitrogenInflow = 0;
+                const current = data[index];
+                if (this.sealedData[index]) {
+                    next[index] = current;
+                    continue;
+                }
 
-                const checkMoistureNeighbor = (nIndex: number) => {
-                    const neighborMoisture = this.moistureData[nIndex];
-                    const diff = currentMoisture - neighborMoisture;
-                    if (diff > 0) {
-                        moistureOutflow += diff * diffusionRate;
-                    } else {
-                        moistureInflow += (-diff) * diffusionRate;
-                    }
-                };
+                let outflow = 0;
+                let inflow = 0;
+                const diffusivity = this.diffusivityData[index];
 
-                const checkNitrogenNeighbor = (nIndex: number) => {
-                    const neighborNitrogen = this.nitrogenData[nIndex];
-                    const diff = currentNitrogen - neighborNitrogen;
+                const checkNeighbor = (nIndex: number) => {
+                    if (this.sealedData[nIndex]) return;
+                    const diff = current - data[nIndex];
+                    const rate = diffusionRate * (diffusivity + this.diffusivityData[nIndex]) / 2;
                     if (diff > 0) {
-                        nitrogenOutflow += diff * diffusionRate;
+                        outflow += diff * rate;
                     } else {
-                        nitrogenInflow += (-diff) * diffusionRate;
+                        inflow += (-diff) * rate;
                     }
                 };
 
-                if (x > 0) {
-                    const nIndex = index - 1;
-                    checkMoistureNeighbor(nIndex);
-                    checkNitrogenNeighbor(nIndex);
-                }
-                if (x < size - 1) {
-                    const nIndex = index + 1;
-                    checkMoistureNeighbor(nIndex);
-                    checkNitrogenNeighbor(nIndex);
-                }
-                if (z > 0) {
-                    const nIndex = index - size;
-                    checkMoistureNeighbor(nIndex);
-                    checkNitrogenNeighbor(nIndex);
-                }
-                if (z < size - 1) {
-                    const nIndex = index + size;
-                    checkMoistureNeighbor(nIndex);
-                    checkNitrogenNeighbor(nIndex);
-                }
+                if (x > 0) checkNeighbor(index - 1);
+                if (x < size - 1) checkNeighbor(index + 1);
+                if (z > 0) checkNeighbor(index - size);
+                if (z < size - 1) checkNeighbor(index + size);
 
-                const totalMoistureOut = moistureOutflow;
-                let actualMoistureOutflow = moistureOutflow;
-
-                if (totalMoistureOut > currentMoisture) {
-                    const ratio = currentMoisture / totalMoistureOut;
-                    actualMoistureOutflow *= ratio;
-                }
-
-                const totalNitrogenOut = nitrogenOutflow;
-                let actualNitrogenOutflow = nitrogenOutflow;
-
-                if (totalNitrogenOut > currentNitrogen) {
-                    const ratio = currentNitrogen / totalNitrogenOut;
-                    actualNitrogenOutflow *= ratio;
+                if (outflow > current) {
+                    outflow *= current / outflow;
                 }
 
-                this.nextMoistureData[index] = Math.max(0, currentMoisture - actualMoistureOutflow + moistureInflow);
-                this.nextNitrogenData[index] = Math.max(0, Math.min(100, currentNitrogen - actualNitrogenOutflow + nitrogenInflow));
+                next[index] = Math.max(0, Math.min(max, current - outflow + inflow));
             }
         }
+    }
 
-        // Swap buffers
-        const tempMoisture = this.moistureData;
-        this.moistureData = this.nextMoistureData;
-        this.nextMoistureData = tempMoisture;
+    /**
+     * Soil water seeps to lower neighbours in proportion to the height drop
+     * and the texture's drainage, until saturated cells can take no more. Against diffusion this settles
+     * with valleys wetter than ridges.
+     */
+    private seepDownhill(dt: number): void {
+        const size = this.GRID_SIZE;
+        const next = this.nextMoistureData;
+        next.set(this.moistureData);
 
-        const tempNitrogen = this.nitrogenData;
-        this.nitrogenData = this.nextNitrogenData;
-        this.nextNitrogenData = tempNitrogen;
+        for (let z = 0; z < size; z++) {
+            for (let x = 0; x < size; x++) {
+                const index = z * size + x;
+                const moisture = this.moistureData[index];
+                if (moisture <= 0 || this.sealedData[index]) continue;
+
+                const height = this.heightData[index];
+                const rate = this.SEEPAGE_RATE * this.getTextureRules(index).drainage * dt;
+                const seep = (nIndex: number) => {
+                    const drop = height - this.heightData[nIndex];
+                    if (drop <= 0 || this.sealedData[nIndex]) return;
+                    const room = Math.max(0, this.SATURATION_THRESHOLD - next[nIndex]);
+                    const amount = Math.min(moisture * rate * drop, next[index], room);
+                    next[index] -= amount;
+                    next[nIndex] += amount;
+                };
+                if (x > 0) seep(index - 1);
+                if (x < size - 1) seep(index + 1);
+                if (z > 0) seep(index - size);
+                if (z < size - 1) seep(index + size);
+            }
+        }
 
-        this.textureDirty = true;
+        const temp = this.moistureData;
+        this.moistureData = next;
+        this.nextMoistureData = temp;
     }
 
     private evaporate(deltaTime: number): void {
@@ -525,18 +1228,24 @@ export class SoilSystem extends System {
             this.nextMoistureData[i] = this.moistureData[i];
         }
 
+        const isSunny = !this.timeSystem
+            || (this.timeSystem.isDaylight() && this.timeSystem.getWeather().cloudCover < 0.5);
         for (let i = 0; i < this.moistureData.length; i++) {
+            const evaporationFactor = this.getEvaporationFactor(this.temperatureData[i]) * deltaTime * 60
+                * (isSunny ? 1 : this.SHADOW_EVAP_MULTIPLIER);
+
+            // Standing water dries faster than the soil under it
+            const surface = this.surfaceWaterData[i];
+            if (surface > 0) {
+                this.surfaceWaterData[i] = Math.max(0, surface - this.SURFACE_EVAPORATION_RATE * evaporationFactor);
+                this.textureDirty = true;
+            }
+
             const current = this.moistureData[i];
             if (current <= 0) continue;
 
-            let soilEvapRate = this.SOIL_EVAPORATION_RATE * deltaTime * 60;
-
-            if (this.timeSystem) {
-                const isDay = this.timeSystem.getSunIcon() === "☀️";
-                if (!isDay) {
-                    soilEvapRate *= this.SHADOW_EVAP_MULTIPLIER;
-                }
-            }
+            const soilEvapRate = this.SOIL_EVAPORATION_RATE * evaporationFactor * this.getGroundRules(i).evaporation
+                / this.getTextureRules(i).retention;
 
             if (current > 0) {
                 const change = Math.min(current, soilEvapRate);
@@ -553,7 +1262,11 @@ export class SoilSystem extends System {
         this.nextMoistureData = tempMoisture;
     }
 
-    public setLightingSystem(_lightingSystem: LightingSystem): void {
-        // Not used
+    /**
+     * Enables shade sampling for soil temperature. Without it (headless),
+     * every cell is treated as open sky.
+     */
+    public setLightingSystem(lightingSystem: LightingSystem): void {
+        this.lightingSystem = lightingSystem;
     }
 }
@@ -1,7 +1,31 @@
 
-import { System, SystemType, World } from "../core/ECS";
+import { System, SystemType, World, SystemPhase, SystemSchedule } from "../core/ECS";
+import { Calendar, CalendarDate, SeasonConditions } from "../core/Calendar";
+import { WeatherMachine, WeatherParameters, WeatherSnapshot, WeatherStateDefinition, WeatherType } from "../core/Weather";
+import { FORECAST_DAYS, Forecast, buildForecast } from "../core/Forecast";
+import { SunPath, SunPosition } from "../core/SunPath";
+
+/**
+ * Serializable TimeSystem state (clock, sleep and weather).
+ */
+export interface TimeSnapshot {
+    totalTime: number;
+    isSleeping: boolean;
+    sleepStartTime: number;
+    sleepTargetTime: number;
+    weather: WeatherSnapshot;
+    forecast: Forecast | null; // Today's issued forecast (v6+)
+}
 
+/**
+ * TimeSystem owns the clock, the calendar, the sun's path, sleep, the
+ * weather and its forecast. Day length in real seconds is fixed; the sun path
+ * moves sunrise and sunset within it over the year.
+ */
 export class TimeSystem extends System {
+    public readonly name = "TimeSystem";
+    public readonly schedule: SystemSchedule = { phase: SystemPhase.SIMULATION };
+
     public totalTime: number = 0;
     public dayLength: number = 120; // Real seconds per in-game day (2 minutes for testing)
 
@@ -16,14 +40,33 @@ export class TimeSystem extends System {
     private readonly MAX_SLEEP_TIME_SCALE = 20; // Peak time acceleration during sleep
     private onSleepComplete: (() => void) | null = null;
 
-    // Weather state
-    public rainIntensity: number = 0; // 0.0 to 1.0 (0=Dry, 1=Heavy Rain)
-    private weatherTimer: number = 0;
-    private nextWeatherChange: number = 10; // First change soon for testing
-    private targetRainIntensity: number = 0;
-
-    constructor(world: World) {
+    // Weather state machine, stepped in game-hours
+    private weather = new WeatherMachine();
+    private forecast: Forecast | null = null;
+    private readonly CLOUD_SHADE = 0.6; // Fraction of sunlight full cloud cover blocks
+
+    // Air temperature: the season's mean plus a daily swing, coolest at 3:00 and warmest at 15:00
+    public readonly DIURNAL_SWING = 5; // °C above/below the daily mean
+    private readonly WARMEST_HOUR = 15;
+    private readonly CLOUD_SWING_DAMPING = 0.5; // Full cloud cover halves the swing (warmer nights, cooler days)
+
+    // Seasons and sun (both cached per clock value; many systems ask each tick)
+    public readonly calendar: Calendar;
+    public readonly sunPath: SunPath;
+    private conditions: SeasonConditions | null = null;
+    private conditionsTime: number = -1;
+    private sunPosition: SunPosition | null = null;
+    private sunPositionTime: number = -1;
+
+    // Open-sky sunlight reaches full strength at this elevation, and fades out a little below the horizon
+    private readonly FULL_SUN_ELEVATION = 35 * Math.PI / 180;
+    private readonly TWILIGHT_GLOW = 0.1; // sin(elevation) offset: light lingers to about 6° below the horizon
+    private readonly LOW_SUN_ELEVATION = 12 * Math.PI / 180; // Below this the clock shows dawn/dusk
+
+    constructor(world: World, calendar: Calendar = new Calendar(), sunPath: SunPath = new SunPath()) {
         super(world, SystemType.FIXED);
+        this.calendar = calendar;
+        this.sunPath = sunPath;
     }
 
     public update(deltaTime: number): void {
@@ -40,38 +83,104 @@ export class TimeSystem extends System {
         }
 
         this.updateWeather(deltaTime);
+
+        // A new forecast every morning (well, every midnight)
+        if (!this.forecast || this.forecast.issuedDay !== this.getCurrentDay()) {
+            this.forecast = this.issueForecast();
+        }
     }
 
     private updateWeather(deltaTime: number): void {
-        this.weatherTimer += deltaTime;
-
-        // Try to change weather
-        if (this.weatherTimer >= this.nextWeatherChange) {
-            this.weatherTimer = 0;
-            // Randomize next change time (between 1/4 day and 1 day)
-            this.nextWeatherChange = (0.25 + Math.random() * 0.75) * this.dayLength;
-
-            // 30% chance of rain
-            if (Math.random() < 0.3) {
-                this.targetRainIntensity = 0.5 + Math.random() * 0.5; // 0.5 to 1.0 intensity
-            } else {
-                this.targetRainIntensity = 0;
-            }
+        // Durations are in game-hours, so weather keeps pace with the clock at any speed
+        const entered = this.weather.update(
+            this.toGameTime(deltaTime),
+            this.conditionsFrom(this.totalTime - deltaTime),
+            this.world.random.stream("weather"),
+        );
+
+        for (const { weather, precipitation } of entered) {
+            this.world.events.emit("weatherChanged", {
+                weather,
+                raining: precipitation > 0,
+                rainIntensity: precipitation,
+            });
         }
+    }
 
-        // Smoothly transition rain intensity
-        const changeRate = 0.1 * deltaTime; // Change over ~10 seconds
-        if (this.rainIntensity < this.targetRainIntensity) {
-            this.rainIntensity = Math.min(this.targetRainIntensity, this.rainIntensity + changeRate);
-        } else if (this.rainIntensity > this.targetRainIntensity) {
-            this.rainIntensity = Math.max(this.targetRainIntensity, this.rainIntensity - changeRate);
-        }
+    /**
+     * Precipitation intensity (0-1) of whatever is falling: rain, snow or hail.
+     */
+    public get rainIntensity(): number {
+        return this.weather.getParameters().precipitation;
     }
 
     /**
-     * Start sleeping until 6 AM. Returns a callback to restore time scale when done.
+     * Whether rain is falling (snow and hail don't count).
      */
-    public startSleep(onComplete: () => void): boolean {
+    public isRaining(): boolean {
+        const { precipitation, precipitationType } = this.weather.getParameters();
+        return precipitationType === "rain" && precipitation > 0;
+    }
+
+    /**
+     * Current weather, blended while one state gives way to the next.
+     */
+    public getWeather(): WeatherParameters {
+        return this.weather.getParameters();
+    }
+
+    public getWeatherState(): WeatherType {
+        return this.weather.getState();
+    }
+
+    public getWeatherDefinition(): WeatherStateDefinition {
+        return this.weather.getDefinition();
+    }
+
+    /**
+     * Today's forecast for the next FORECAST_DAYS days (null until the first tick).
+     */
+    public getForecast(): Forecast | null {
+        return this.forecast;
+    }
+
+    /**
+     * Project the real weather ahead and blur it into a forecast. Projection
+     * copies the weather stream, so issuing a forecast never changes the weather.
+     */
+    private issueForecast(): Forecast {
+        const start = this.totalTime;
+        const hoursLeftToday = (1 - this.getTimeOfDayFraction()) * 24;
+        const conditionsAt = this.conditionsFrom(start);
+        const segments = this.weather.project(
+            hoursLeftToday + (FORECAST_DAYS - 1) * 24,
+            conditionsAt,
+            this.world.random.stream("weather"),
+        );
+
+        return buildForecast({
+            issuedDay: this.getCurrentDay(),
+            hoursLeftToday,
+            segments,
+            conditionsAt,
+            temperatureAt: (hoursAhead, weather) =>
+                this.airTemperatureAt(start + hoursAhead / this.HOURS_PER_REAL_SECOND, weather),
+        }, this.world.random.stream("forecast"));
+    }
+
+    /**
+     * Season conditions some game-hours after a clock value.
+     */
+    private conditionsFrom(totalTime: number): (hoursAhead: number) => SeasonConditions {
+        return (hoursAhead) =>
+            this.calendar.getConditions((totalTime + hoursAhead / this.HOURS_PER_REAL_SECOND) / this.dayLength);
+    }
+
+    /**
+     * Start sleeping until 6 AM. onComplete runs when the target time is
+     * reached or the sleep is cancelled. Returns false if already asleep.
+     */
+    public startSleep(onComplete?: () => void): boolean {
         if (this.isSleeping) return false;
 
         const currentFraction = this.getTimeOfDayFraction();
@@ -92,7 +201,7 @@ export class TimeSystem extends System {
         this.isSleeping = true;
         this.sleepStartTime = this.totalTime;
         this.sleepTargetTime = this.totalTime + secondsToSleep;
-        this.onSleepComplete = onComplete;
+        this.onSleepComplete = onComplete ?? null;
 
         return true;
     }
@@ -136,6 +245,31 @@ export class TimeSystem extends System {
         }
     }
 
+    public getSnapshot(): TimeSnapshot {
+        return {
+            totalTime: this.totalTime,
+            isSleeping: this.isSleeping,
+            sleepStartTime: this.sleepStartTime,
+            sleepTargetTime: this.sleepTargetTime,
+            weather: this.weather.getSnapshot(),
+            forecast: this.forecast,
+        };
+    }
+
+    /**
+     * Restore clock, sleep and weather state. Sleep completion callbacks
+     * can't be saved, so a restored sleep simply runs until 6 AM.
+     */
+    public loadSnapshot(snapshot: TimeSnapshot): void {
+        this.totalTime = snapshot.totalTime;
+        this.isSleeping = snapshot.isSleeping;
+        this.sleepStartTime = snapshot.sleepStartTime;
+        this.sleepTargetTime = snapshot.sleepTargetTime;
+        this.onSleepComplete = null;
+        this.weather.loadSnapshot(snapshot.weather);
+        this.forecast = snapshot.forecast;
+    }
+
     /**
      * Convert real-time delta to in-game time delta (in hours)
      */
@@ -158,6 +292,80 @@ export class TimeSystem extends System {
         return (this.totalTime % this.dayLength) / this.dayLength;
     }
 
+    /**
+     * Calendar date of the current day.
+     */
+    public getDate(): CalendarDate {
+        return this.calendar.getDate(this.getCurrentDay());
+    }
+
+    /**
+     * Season-blended sunrise, rain chance, temperature and growth rate right now.
+     */
+    public getSeasonConditions(): SeasonConditions {
+        if (!this.conditions || this.conditionsTime !== this.totalTime) {
+            this.conditions = this.calendar.getConditions(this.totalTime / this.dayLength);
+            this.conditionsTime = this.totalTime;
+        }
+        return this.conditions;
+    }
+
+    /**
+     * Air temperature in °C right now: the season's mean, the daily swing
+     * (smaller under cloud) and the weather's offset.
+     */
+    public getAirTemperature(): number {
+        return this.airTemperatureAt(this.totalTime, this.getWeather());
+    }
+
+    private airTemperatureAt(totalTime: number, weather: WeatherParameters): number {
+        const { baseTemperature } = totalTime === this.totalTime
+            ? this.getSeasonConditions()
+            : this.calendar.getConditions(totalTime / this.dayLength);
+        const hour = (totalTime % this.dayLength) / this.dayLength * 24;
+        const daily = Math.cos((hour - this.WARMEST_HOUR) / 24 * 2 * Math.PI);
+        const swing = this.DIURNAL_SWING * (1 - weather.cloudCover * this.CLOUD_SWING_DAMPING);
+        return baseTemperature + daily * swing + weather.temperatureOffset;
+    }
+
+    /**
+     * True while the sun is above the horizon.
+     */
+    public isDaylight(): boolean {
+        return this.getSunPosition().elevation > 0;
+    }
+
+    /**
+     * The sun's elevation, azimuth and direction right now, from the latitude,
+     * the time of year and the time of day.
+     */
+    public getSunPosition(): SunPosition {
+        if (!this.sunPosition || this.sunPositionTime !== this.totalTime) {
+            const day = this.totalTime / this.dayLength;
+            this.sunPosition = this.sunPath.getPosition(this.calendar.getYearFraction(day), this.getTimeOfDayFraction() * 24);
+            this.sunPositionTime = this.totalTime;
+        }
+        return this.sunPosition;
+    }
+
+    /**
+     * Unshadowed sunlight intensity (0-1) from the sun's elevation, dimmed by
+     * cloud cover. Low winter sun is weaker than high summer sun.
+     * LightingSystem applies shadows on top of this; headless runs use it directly.
+     */
+    public getOpenSkySunlight(): number {
+        return this.getClearSkySunlight() * (1 - this.getWeather().cloudCover * this.CLOUD_SHADE);
+    }
+
+    /**
+     * Open-sky sunlight before clouds (0-1): full from FULL_SUN_ELEVATION up.
+     */
+    public getClearSkySunlight(): number {
+        const height = Math.sin(this.getSunPosition().elevation) + this.TWILIGHT_GLOW;
+        const fullSun = Math.sin(this.FULL_SUN_ELEVATION) + this.TWILIGHT_GLOW;
+        return Math.max(0, Math.min(1, height / fullSun));
+    }
+
     /**
      * Get formatted 24-hour time string (HH:MM)
      */
@@ -170,18 +378,26 @@ export class TimeSystem extends System {
     }
 
     /**
-     * Get sun icon based on time of day
+     * Get formatted date string ("Spring 3, Year 1")
+     */
+    public getFormattedDate(): string {
+        const date = this.getDate();
+        return `${date.season.name} ${date.dayOfSeason}, Year ${date.year}`;
+    }
+
+    /**
+     * Get sun icon based on time of day, or the weather's icon when it isn't clear
      */
     public getSunIcon(): string {
-        // Overlay rain icon if raining significantly
-        if (this.rainIntensity > 0.2) {
-            return "🌧️";
+        if (this.weather.getState() !== "clear") {
+            return this.weather.getDefinition().icon;
         }
 
-        const fraction = this.getTimeOfDayFraction();
-        if (fraction < 0.25 || fraction >= 0.85) {
+        // Dawn and dusk while the sun is low
+        const elevation = this.getSunPosition().elevation;
+        if (elevation <= 0) {
             return "🌙"; // Night
-        } else if (fraction < 0.35 || fraction >= 0.75) {
+        } else if (elevation < this.LOW_SUN_ELEVATION) {
             return "🌅"; // Dawn/Dusk
         } else {
             return "☀️"; // Day
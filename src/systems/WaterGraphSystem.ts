@@ -12,6 +12,7 @@ interface DataPoint {
 }
 
 export class WaterGraphSystem extends System {
+    public readonly name = "WaterGraphSystem";
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private container: HTMLElement;
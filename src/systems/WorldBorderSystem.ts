@@ -4,6 +4,7 @@ import { System, SystemType, World } from "../core/ECS";
 import { Engine } from "../core/Engine";
 
 export class WorldBorderSystem extends System {
+    public readonly name = "WorldBorderSystem";
     private scene: BABYLON.Scene;
     private fenceMesh: BABYLON.Mesh | null = null;
     private groundMaterial: BABYLON.StandardMaterial;
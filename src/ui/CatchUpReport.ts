@@ -0,0 +1,24 @@
+import { CatchUpSummary } from "../core/CatchUpSimulation";
+import { formatHours, showReportPanel } from "./ReportPanel";
+
+/**
+ * Show the "while you were away" panel after a catch-up. Resolves when the
+ * player closes it.
+ */
+export function showCatchUpReport(summary: CatchUpSummary): Promise<void> {
+    return showReportPanel({
+        id: "catch-up-report",
+        title: "🌙 While you were away",
+        subtitle: `${formatHours(summary.hours)} passed in the garden`,
+        rows: [
+            ["🌱 Grew", `${summary.grew} plant${summary.grew === 1 ? "" : "s"}`],
+            ["🌸 Flowered", `${summary.flowered}`],
+            ["🥀 Died", `${summary.died}`],
+            ["🍂 Decomposed", `${summary.decomposed}`],
+            ["🌧️ Rain", summary.rainHours > 0 ? formatHours(summary.rainHours) : "None"],
+            ["💧 Soil moisture", `${summary.moistureBefore.toFixed(0)} → ${summary.moistureAfter.toFixed(0)}`],
+            ["🧪 Soil nitrogen", `${summary.nitrogenBefore.toFixed(1)} → ${summary.nitrogenAfter.toFixed(1)}`],
+        ],
+        closeLabel: "Back to the garden",
+    });
+}
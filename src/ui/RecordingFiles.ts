@@ -0,0 +1,37 @@
+import { SessionRecording } from "../core/SessionRecorder";
+
+/**
+ * Download a session recording as a JSON file (for bug reports and demos).
+ */
+export function downloadRecording(recording: SessionRecording): void {
+    const blob = new Blob([JSON.stringify(recording)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `verdant-session-${recording.recordedAt.replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the player pick a recording file. Resolves to null if cancelled.
+ */
+export function pickRecordingFile(): Promise<SessionRecording | null> {
+    return new Promise((resolve, reject) => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.accept = "application/json,.json";
+        input.onchange = () => {
+            const file = input.files?.[0];
+            if (!file) {
+                resolve(null);
+                return;
+            }
+            file.text()
+                .then(text => resolve(JSON.parse(text) as SessionRecording))
+                .catch(reject);
+        };
+        input.oncancel = () => resolve(null);
+        input.click();
+    });
+}
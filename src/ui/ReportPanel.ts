@@ -0,0 +1,60 @@
+/**
+ * Centered summary panel (title, subtitle, label/value rows and a close
+ * button), used for the catch-up and night reports. Resolves when closed.
+ */
+export function showReportPanel(options: {
+    id: string;
+    title: string;
+    subtitle: string;
+    rows: Array<[string, string]>;
+    closeLabel: string;
+}): Promise<void> {
+    return new Promise(resolve => {
+        document.getElementById(options.id)?.remove();
+
+        const panel = document.createElement("div");
+        panel.id = options.id;
+        panel.className = "game-panel report-panel";
+
+        const title = document.createElement("div");
+        title.className = "panel-title";
+        title.textContent = options.title;
+        panel.appendChild(title);
+
+        const meta = document.createElement("div");
+        meta.className = "slot-meta";
+        meta.textContent = options.subtitle;
+        panel.appendChild(meta);
+
+        for (const [label, value] of options.rows) {
+            const row = document.createElement("div");
+            row.className = "tooltip-row";
+            const labelEl = document.createElement("span");
+            labelEl.className = "tooltip-label";
+            labelEl.textContent = label;
+            const valueEl = document.createElement("span");
+            valueEl.className = "tooltip-value";
+            valueEl.textContent = value;
+            row.append(labelEl, valueEl);
+            panel.appendChild(row);
+        }
+
+        const buttons = document.createElement("div");
+        buttons.className = "save-row";
+        const closeButton = document.createElement("button");
+        closeButton.textContent = options.closeLabel;
+        closeButton.onclick = () => {
+            panel.remove();
+            resolve();
+        };
+        buttons.appendChild(closeButton);
+        panel.appendChild(buttons);
+
+        document.body.appendChild(panel);
+    });
+}
+
+export function formatHours(hours: number): string {
+    const rounded = Math.round(hours);
+    return rounded === 1 ? "1 hour" : `${rounded} hours`;
+}
@@ -0,0 +1,264 @@
+import { Engine } from "../core/Engine";
+import { SaveManager } from "../core/SaveManager";
+import { SaveSlot, SaveSlotSummary, SaveStorage } from "../core/SaveStorage";
+import { CatchUpSimulation } from "../core/CatchUpSimulation";
+import { showCatchUpReport } from "./CatchUpReport";
+
+/**
+ * HTML panel for managing save slots (save, load, delete) and the
+ * "Continue" prompt shown at startup when a save exists.
+ */
+export class SaveMenu {
+    private saveManager: SaveManager;
+    private storage: SaveStorage;
+
+    private panel: HTMLElement;
+    private slotList: HTMLElement;
+    private nameInput: HTMLInputElement;
+    private continuePrompt: HTMLElement | null = null;
+    private catchUp: CatchUpSimulation | null = null;
+
+    constructor(saveManager: SaveManager, storage: SaveStorage) {
+        this.saveManager = saveManager;
+        this.storage = storage;
+
+        this.panel = document.createElement("div");
+        this.panel.id = "save-menu";
+        this.panel.className = "game-panel hidden";
+
+        const title = document.createElement("div");
+        title.className = "panel-title";
+        title.textContent = "🌻 Gardens";
+        this.panel.appendChild(title);
+
+        // New save row
+        const saveRow = document.createElement("div");
+        saveRow.className = "save-row";
+        this.nameInput = document.createElement("input");
+        this.nameInput.type = "text";
+        this.nameInput.placeholder = "Slot name (e.g. Drought test)";
+        // Keep typing from triggering tool / overlay shortcuts
+        this.nameInput.addEventListener("keydown", (e) => e.stopPropagation());
+        saveRow.appendChild(this.nameInput);
+        const saveButton = document.createElement("button");
+        saveButton.textContent = "Save";
+        saveButton.onclick = () => {
+            const name = this.nameInput.value.trim();
+            if (!name) return;
+            this.saveToSlot(name)
+                .then(() => {
+                    this.nameInput.value = "";
+                })
+                .catch(err => console.warn(`[SaveMenu] Could not save "${name}"`, err));
+        };
+        saveRow.appendChild(saveButton);
+        this.panel.appendChild(saveRow);
+
+        this.slotList = document.createElement("div");
+        this.slotList.className = "slot-list";
+        this.panel.appendChild(this.slotList);
+
+        document.body.appendChild(this.panel);
+    }
+
+    /**
+     * Enable the "catch up on missed hours" option in the Continue prompt.
+     */
+    public setCatchUp(catchUp: CatchUpSimulation): void {
+        this.catchUp = catchUp;
+    }
+
+    public toggle(): void {
+        if (this.panel.classList.contains("hidden")) {
+            this.show();
+        } else {
+            this.hide();
+        }
+    }
+
+    public show(): void {
+        this.panel.classList.remove("hidden");
+        this.refresh();
+    }
+
+    public hide(): void {
+        this.panel.classList.add("hidden");
+    }
+
+    /**
+     * Save the current garden to a named slot, with a thumbnail of the current view.
+     */
+    public saveToSlot(name: string): Promise<void> {
+        const slot = this.saveManager.createSlot(name, null);
+        return Engine.getInstance().captureThumbnail()
+            .then(thumbnail => {
+                slot.thumbnail = thumbnail;
+            })
+            .catch(err => console.warn("[SaveMenu] Thumbnail capture failed", err))
+            .then(() => this.storage.put(slot))
+            .then(() => {
+                console.log(`[SaveMenu] Saved "${name}"`);
+                this.refresh();
+            });
+    }
+
+    /**
+     * Load a slot by name. Resolves to false if the slot doesn't exist.
+     */
+    public loadSlot(name: string): Promise<boolean> {
+        return this.storage.get(name).then(slot => {
+            if (!slot) return false;
+            this.applySlot(slot);
+            return true;
+        });
+    }
+
+    /**
+     * Offer to continue the most recent save. Resolves once the player has
+     * chosen Continue or New Garden (immediately if there are no saves), and
+     * after the catch-up report is closed if they chose to catch up.
+     */
+    public offerContinue(): Promise<void> {
+        return this.storage.getLatest().then(slot => {
+            if (!slot) return;
+            return new Promise<void>(resolve => this.showContinuePrompt(slot, resolve));
+        });
+    }
+
+    private applySlot(slot: SaveSlot): void {
+        this.saveManager.deserialize(slot.data);
+        console.log(`[SaveMenu] Loaded "${slot.name}" (day ${slot.gameDay})`);
+    }
+
+    private refresh(): void {
+        this.storage.list().then(slots => {
+            this.slotList.replaceChildren(...slots.map(slot => this.createSlotRow(slot)));
+            if (slots.length === 0) {
+                const empty = document.createElement("div");
+                empty.className = "slot-empty";
+                empty.textContent = "No saved gardens yet.";
+                this.slotList.appendChild(empty);
+            }
+        }).catch(err => console.warn("[SaveMenu] Could not list saved gardens", err));
+    }
+
+    private createSlotRow(slot: SaveSlotSummary): HTMLElement {
+        const row = document.createElement("div");
+        row.className = "slot-row";
+
+        row.appendChild(this.createThumbnail(slot));
+
+        const info = document.createElement("div");
+        info.className = "slot-info";
+        const name = document.createElement("div");
+        name.className = "slot-name";
+        name.textContent = slot.name;
+        const meta = document.createElement("div");
+        meta.className = "slot-meta";
+        meta.textContent = `Day ${slot.gameDay} · ${new Date(slot.savedAt).toLocaleString()}`;
+        info.append(name, meta);
+        row.appendChild(info);
+
+        const loadButton = document.createElement("button");
+        loadButton.textContent = "Load";
+        loadButton.onclick = () => {
+            this.loadSlot(slot.name)
+                .then(() => this.hide())
+                .catch(err => console.warn(`[SaveMenu] Could not load "${slot.name}"`, err));
+        };
+        row.appendChild(loadButton);
+
+        const deleteButton = document.createElement("button");
+        deleteButton.textContent = "🗑";
+        deleteButton.title = "Delete";
+        deleteButton.onclick = () => {
+            this.storage.delete(slot.name)
+                .then(() => this.refresh())
+                .catch(err => console.warn(`[SaveMenu] Could not delete "${slot.name}"`, err));
+        };
+        row.appendChild(deleteButton);
+
+        return row;
+    }
+
+    private showContinuePrompt(slot: SaveSlot, onChoice: () => void): void {
+        this.continuePrompt?.remove();
+
+        const prompt = document.createElement("div");
+        prompt.id = "continue-prompt";
+        prompt.className = "game-panel";
+
+        const title = document.createElement("div");
+        title.className = "panel-title";
+        title.textContent = "🌿 Welcome back";
+        prompt.appendChild(title);
+
+        prompt.appendChild(this.createThumbnail(slot));
+
+        const meta = document.createElement("div");
+        meta.className = "slot-meta";
+        meta.textContent = `${slot.name} · Day ${slot.gameDay} · ${new Date(slot.savedAt).toLocaleString()}`;
+        prompt.appendChild(meta);
+
+        // Offer to simulate the hours since the save was written
+        const missedHours = this.catchUp ? CatchUpSimulation.missedHours(slot.savedAt) : 0;
+        let catchUpCheckbox: HTMLInputElement | null = null;
+        if (missedHours > 0) {
+            const option = document.createElement("label");
+            option.className = "catch-up-option";
+            catchUpCheckbox = document.createElement("input");
+            catchUpCheckbox.type = "checkbox";
+            catchUpCheckbox.checked = true;
+            option.append(catchUpCheckbox, `Let the garden grow for the ${Math.round(missedHours)}h you were away`);
+            prompt.appendChild(option);
+        }
+
+        const buttons = document.createElement("div");
+        buttons.className = "save-row";
+        const continueButton = document.createElement("button");
+        continueButton.textContent = "Continue";
+        continueButton.onclick = () => {
+            prompt.remove();
+            // A save this build can't read (e.g. from a newer version) falls back to the new garden
+            try {
+                this.applySlot(slot);
+            } catch (err) {
+                console.warn(`[SaveMenu] Could not load "${slot.name}"`, err);
+                onChoice();
+                return;
+            }
+            if (this.catchUp && catchUpCheckbox?.checked) {
+                const summary = this.catchUp.run(missedHours);
+                console.log(`[SaveMenu] Caught up ${missedHours.toFixed(1)} game-hours`, summary);
+                showCatchUpReport(summary).then(onChoice);
+            } else {
+                onChoice();
+            }
+        };
+        const newButton = document.createElement("button");
+        newButton.textContent = "New Garden";
+        newButton.onclick = () => {
+            prompt.remove();
+            onChoice();
+        };
+        buttons.append(continueButton, newButton);
+        prompt.appendChild(buttons);
+
+        document.body.appendChild(prompt);
+        this.continuePrompt = prompt;
+    }
+
+    private createThumbnail(slot: SaveSlotSummary): HTMLElement {
+        if (!slot.thumbnail) {
+            const placeholder = document.createElement("div");
+            placeholder.className = "slot-thumbnail";
+            placeholder.textContent = "🌱";
+            return placeholder;
+        }
+        const img = document.createElement("img");
+        img.className = "slot-thumbnail";
+        img.src = slot.thumbnail;
+        img.alt = slot.name;
+        return img;
+    }
+}
@@ -0,0 +1,56 @@
+import type { CommandSystem } from "../systems/CommandSystem";
+import { NightReport, SleepSystem } from "../systems/SleepSystem";
+import { formatHours, showReportPanel } from "./ReportPanel";
+
+/**
+ * Darkens the screen while the player sleeps (the sky still shows faintly as
+ * time races), blocks pointer input to the garden, and shows the night report
+ * on waking.
+ */
+export class SleepScreen {
+    private overlay: HTMLElement;
+
+    constructor(sleepSystem: SleepSystem, commandSystem: CommandSystem) {
+        this.overlay = document.createElement("div");
+        this.overlay.id = "sleep-screen";
+
+        const text = document.createElement("div");
+        text.className = "sleep-text";
+        text.textContent = "💤 Sleeping until 6:00…";
+        this.overlay.appendChild(text);
+
+        const wakeButton = document.createElement("button");
+        wakeButton.textContent = "Wake up";
+        wakeButton.onclick = () => commandSystem.dispatch({ type: "wake" });
+        this.overlay.appendChild(wakeButton);
+
+        document.body.appendChild(this.overlay);
+
+        sleepSystem.onSleep(() => this.overlay.classList.add("visible"));
+        sleepSystem.onWake(report => {
+            this.overlay.classList.remove("visible");
+            if (report) this.showReport(report);
+        });
+    }
+
+    private showReport(report: NightReport): void {
+        const decay = report.decaying > 0
+            ? `${report.decaying} decaying (+${report.decayProgress.toFixed(0)}%)`
+            : "Nothing decaying";
+        showReportPanel({
+            id: "night-report",
+            title: "🌅 Good morning",
+            subtitle: `You slept ${formatHours(report.hoursSlept)}`,
+            rows: [
+                ["🌧️ Rain", report.rainHours > 0
+                    ? `${formatHours(report.rainHours)} (+${report.rainfall.toFixed(0)} moisture)`
+                    : "None"],
+                ["🥵 Became stressed", `${report.stressed}`],
+                ["🥀 Died", `${report.died}`],
+                ["🍂 Decomposed", `${report.decomposed}`],
+                ["🪱 Decay", decay],
+            ],
+            closeLabel: "Start the day",
+        });
+    }
+}
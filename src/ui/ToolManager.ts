@@ -1,11 +1,18 @@
 
-export type ToolType = "plant" | "inspect" | "water" | "build" | "compost" | "harvest" | null;
+import type { CommandSystem } from "../systems/CommandSystem";
+import type { AmendmentType } from "../core/Nutrients";
+import type { GroundType } from "../core/Ground";
+
+export type ToolType = "plant" | "inspect" | "water" | "build" | "compost" | "harvest" | "ground" | null;
 export type BuildingType = "lightpost" | "hose" | null;
 
 export class ToolManager {
     private currentTool: ToolType = "plant";
     private activeBuildingType: BuildingType = "lightpost";
+    private activeAmendment: AmendmentType = "compost";
+    private activeGround: GroundType = "stonePath";
     private listeners: ((tool: ToolType) => void)[] = [];
+    private commandSystem: CommandSystem | null = null;
 
     constructor() {
         this.setupKeyboard();
@@ -14,23 +21,76 @@ export class ToolManager {
     private setupKeyboard(): void {
         window.addEventListener("keydown", (e) => {
             if (e.key === "Escape") {
-                this.setTool(null);
+                this.selectTool(null);
             } else if (e.key === "1") {
-                this.setTool("plant");
+                this.selectTool("plant");
             } else if (e.key === "2") {
-                this.setTool("inspect");
+                this.selectTool("inspect");
             } else if (e.key === "3") {
-                this.setTool("water");
+                this.selectTool("water");
             } else if (e.key === "4") {
-                this.setTool("build");
+                this.selectTool("build");
             } else if (e.key === "5") {
-                this.setTool("compost");
+                this.selectTool("compost");
             } else if (e.key === "6") {
-                this.setTool("harvest");
+                this.selectTool("harvest");
+            } else if (e.key === "7") {
+                this.selectTool("ground");
             }
         });
     }
 
+    /**
+     * Route tool changes through the command dispatcher so they are recorded.
+     */
+    public setCommandSystem(commandSystem: CommandSystem): void {
+        this.commandSystem = commandSystem;
+    }
+
+    /**
+     * Player-initiated tool change (keyboard, toolbar).
+     */
+    public selectTool(tool: ToolType): void {
+        if (this.commandSystem) {
+            this.commandSystem.dispatch({ type: "selectTool", tool });
+        } else {
+            this.setTool(tool);
+        }
+    }
+
+    /**
+     * Player-initiated building choice (build submenu).
+     */
+    public selectBuilding(type: BuildingType): void {
+        if (this.commandSystem) {
+            this.commandSystem.dispatch({ type: "selectTool", tool: "build", building: type });
+        } else {
+            this.setActiveBuilding(type);
+        }
+    }
+
+    /**
+     * Player-initiated amendment choice (compost submenu).
+     */
+    public selectAmendment(type: AmendmentType): void {
+        if (this.commandSystem) {
+            this.commandSystem.dispatch({ type: "selectTool", tool: "compost", amendment: type });
+        } else {
+            this.setActiveAmendment(type);
+        }
+    }
+
+    /**
+     * Player-initiated ground type choice (ground submenu).
+     */
+    public selectGround(type: GroundType): void {
+        if (this.commandSystem) {
+            this.commandSystem.dispatch({ type: "selectTool", tool: "ground", ground: type });
+        } else {
+            this.setActiveGround(type);
+        }
+    }
+
     public setTool(tool: ToolType): void {
         this.currentTool = tool;
         this.notifyListeners();
@@ -52,6 +112,30 @@ export class ToolManager {
         }
     }
 
+    public getActiveAmendment(): AmendmentType {
+        return this.activeAmendment;
+    }
+
+    public setActiveAmendment(type: AmendmentType): void {
+        this.activeAmendment = type;
+        // Ensure we are in compost mode
+        if (this.currentTool !== "compost") {
+            this.setTool("compost");
+        }
+    }
+
+    public getActiveGround(): GroundType {
+        return this.activeGround;
+    }
+
+    public setActiveGround(type: GroundType): void {
+        this.activeGround = type;
+        // Ensure we are in ground mode
+        if (this.currentTool !== "ground") {
+            this.setTool("ground");
+        }
+    }
+
     public onToolChange(callback: (tool: ToolType) => void): void {
         this.listeners.push(callback);
     }